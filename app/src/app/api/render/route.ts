@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createReadStream } from "fs";
+import { mkdtemp, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+
+import { renderManifestSchema } from "@/lib/render/manifest";
+import { renderVideo } from "@/lib/render/ffmpeg";
+import { UploadLimitError, receiveRenderUpload, uploadedFile } from "@/lib/render/upload";
+import {
+  consumeRenderRateLimit,
+  persistClient,
+  rateLimitHeaders,
+  resolveClient,
+  retryAfterSeconds,
+} from "@/lib/usage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+async function render(request: NextRequest, clientId: string) {
+  const rate = await consumeRenderRateLimit(clientId);
+
+  if (!rate.allowed) {
+    return NextResponse.json(
+      {
+        error: "Muitas renderizações em sequência. Aguarde alguns minutos e tente novamente.",
+        retryAt: rate.resetAt,
+      },
+      {
+        status: 429,
+        headers: { ...rateLimitHeaders(rate), "Retry-After": retryAfterSeconds(rate.resetAt) },
+      },
+    );
+  }
+
+  let workDir: string | null = null;
+
+  try {
+    const dir = await mkdtemp(join(tmpdir(), "aurora-render-"));
+    workDir = dir;
+
+    const upload = await receiveRenderUpload(request, dir);
+    let rawManifest: unknown = null;
+    try {
+      rawManifest = JSON.parse(upload.fields.manifest ?? "null");
+    } catch {
+      return NextResponse.json(
+        { error: { manifest: ["O manifesto enviado não é um JSON válido."] } },
+        { status: 400 },
+      );
+    }
+    const parseResult = renderManifestSchema.safeParse(rawManifest);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: parseResult.error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
+    const manifest = parseResult.data;
+    const missing = manifest.timeline.filter(
+      (clip) => !manifest.media.some((asset) => asset.id === clip.mediaId),
+    );
+
+    if (missing.length) {
+      return NextResponse.json(
+        { error: "A timeline referencia mídias que não foram enviadas." },
+        { status: 400 },
+      );
+    }
+
+    const audioPath = uploadedFile(upload, manifest.audio.field, "audio");
+    const mediaPaths = Object.fromEntries(
+      manifest.media.map((asset) => [asset.id, uploadedFile(upload, asset.field, `media-${asset.id}`)]),
+    );
+    const trackPaths = Object.fromEntries(
+      manifest.tracks.map((track) => [track.id, uploadedFile(upload, track.field, `track-${track.id}`)]),
+    );
+    const overlayPaths = Object.fromEntries(
+      manifest.overlays.map((overlay) => [
+        overlay.id,
+        uploadedFile(upload, overlay.field, `overlay-${overlay.id}`),
+      ]),
+    );
+    const captionsPath = manifest.captions
+      ? uploadedFile(upload, manifest.captions.field, "captions.srt")
+      : undefined;
+
+    const outputPath = join(dir, `output.${manifest.format}`);
+    await renderVideo(
+      manifest,
+      { audioPath, mediaPaths, trackPaths, overlayPaths, captionsPath },
+      outputPath,
+      request.signal,
+    );
+    const { size } = await stat(outputPath);
+
+    const file = createReadStream(outputPath);
+    file.on("close", () => {
+      rm(dir, { recursive: true, force: true });
+    });
+    workDir = null;
+
+    return new NextResponse(Readable.toWeb(file) as ReadableStream<Uint8Array>, {
+      headers: {
+        "Content-Type": manifest.format === "mp4" ? "video/mp4" : "video/webm",
+        "Content-Length": String(size),
+        "Content-Disposition": `attachment; filename="aurora-video-${Date.now()}.${manifest.format}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof UploadLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    console.error("[RENDER_ERROR]", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Falha ao renderizar o vídeo.",
+      },
+      { status: 500 },
+    );
+  } finally {
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const client = resolveClient(request);
+  return persistClient(await render(request, client.id), client);
+}
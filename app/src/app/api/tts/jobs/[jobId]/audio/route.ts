@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+
+import { getTtsJob } from "@/lib/tts/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+type RouteContext = {
+  params: Promise<{ jobId: string }>;
+};
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getTtsJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Tarefa de síntese não encontrada." }, { status: 404 });
+  }
+
+  const output = job.claimOutput();
+
+  if (!output) {
+    return NextResponse.json(
+      { error: "O áudio desta tarefa já foi transmitido ou expirou." },
+      { status: 409 },
+    );
+  }
+
+  request.signal.addEventListener("abort", () => job.cancel());
+
+  return new Response(Readable.toWeb(output) as ReadableStream<Uint8Array>, {
+    headers: {
+      "Content-Type": "audio/mpeg",
+      "Cache-Control": "no-store",
+      "X-Aurora-File-Name": job.meta.fileName,
+      "X-Aurora-Duration-Estimate": String(job.meta.durationEstimateSeconds),
+      "X-Aurora-Chunk-Count": String(job.meta.chunkCount),
+      "X-Aurora-Provider": job.meta.provider,
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { createJobEventStream, getTtsJob } from "@/lib/tts/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ jobId: string }>;
+};
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getTtsJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Tarefa de síntese não encontrada." }, { status: 404 });
+  }
+
+  return new Response(createJobEventStream(job), {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
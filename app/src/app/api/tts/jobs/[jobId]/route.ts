@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getTtsJob } from "@/lib/tts/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ jobId: string }>;
+};
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getTtsJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Tarefa de síntese não encontrada." }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    jobId: job.id,
+    status: job.status,
+    ...job.meta,
+    events: job.events,
+  });
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getTtsJob(jobId);
+
+  if (!job) {
+    return NextResponse.json({ error: "Tarefa de síntese não encontrada." }, { status: 404 });
+  }
+
+  job.cancel();
+  return NextResponse.json({ jobId: job.id, status: job.status });
+}
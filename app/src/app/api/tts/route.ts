@@ -1,154 +1,247 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
 import { z } from "zod";
-import ffmpeg from "fluent-ffmpeg";
-import ffmpegPath from "ffmpeg-static";
-import { Readable } from "stream";
 
 import { voiceLibrary } from "@/lib/voices";
+import { emotionIds } from "@/lib/tts/emotions";
+import { MarkupError, MarkupSegment, SpeechCue, parseScriptMarkup } from "@/lib/tts/markup";
+import { normalizeSpeaker, parseDialogue } from "@/lib/tts/dialogue";
+import { planSynthesis, startSynthesisJob } from "@/lib/tts/pipeline";
+import { lexiconEntrySchema, overridesToLexicon } from "@/lib/tts/pronunciation";
+import {
+  consumeRateLimit,
+  persistClient,
+  quotaStatus,
+  rateLimitHeaders,
+  reserveDailyQuota,
+  resolveClient,
+  retryAfterSeconds,
+  trackSynthesisUsage,
+} from "@/lib/usage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
-export const maxDuration = 60;
-
-if (ffmpegPath) {
-  ffmpeg.setFfmpegPath(ffmpegPath);
-}
+export const maxDuration = 300;
 
 const requestSchema = z.object({
   text: z.string().min(1, "O texto é obrigatório.").max(100_000),
   voiceId: z.string(),
   speed: z.number().min(0.5).max(2),
   pitch: z.number().min(-10).max(10),
-  emotion: z.string(),
+  emotion: z.enum(emotionIds),
+  chunkPauseMs: z.number().min(0).max(3_000).default(350),
+  markup: z.boolean().default(true),
+  dialogue: z
+    .object({
+      speakers: z.record(z.string(), z.string()),
+      linePauseMs: z.number().min(0).max(3_000).default(450),
+    })
+    .optional(),
+  pronunciations: z
+    .array(
+      z.object({
+        term: z.string().trim().min(1).max(100),
+        replacement: z.string().trim().min(1).max(200),
+      }),
+    )
+    .max(200)
+    .default([]),
+  lexicon: z.array(lexiconEntrySchema).max(500).default([]),
 });
 
 function findVoice(voiceId: string) {
   return voiceLibrary.find((voice) => voice.id === voiceId);
 }
 
-function splitTempoRatio(ratio: number): number[] {
-  const factors: number[] = [];
-  let rest = ratio;
-  while (rest > 2) {
-    factors.push(2);
-    rest /= 2;
-  }
-  while (rest < 0.5) {
-    factors.push(0.5);
-    rest /= 0.5;
-  }
-  if (Math.abs(rest - 1) > 1e-6) {
-    factors.push(rest);
-  }
-  return factors;
-}
+async function synthesize(request: NextRequest, clientId: string) {
+  try {
+    const body = await request.json().catch(() => null);
 
-function buildFilters(speed: number, pitch: number) {
-  const filters: string[] = [];
-  const pitchFactor = Math.pow(2, pitch / 12);
-  const baseSampleRate = 44100;
+    if (body === null) {
+      return NextResponse.json(
+        { error: "O corpo da requisição deve ser um JSON válido." },
+        { status: 400 },
+      );
+    }
 
-  if (Math.abs(pitch) > 0.01) {
-    filters.push(`asetrate=${baseSampleRate * pitchFactor}`);
-    filters.push(`aresample=${baseSampleRate}`);
-    const correction = splitTempoRatio(1 / pitchFactor);
-    correction.forEach((factor) => filters.push(`atempo=${factor.toFixed(5)}`));
-  }
+    const parseResult = requestSchema.safeParse(body);
 
-  if (Math.abs(speed - 1) > 0.01) {
-    const tempoFactors = splitTempoRatio(speed);
-    tempoFactors.forEach((factor) => filters.push(`atempo=${factor.toFixed(5)}`));
-  }
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: parseResult.error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
 
-  return filters;
-}
+    const {
+      text,
+      voiceId,
+      speed,
+      pitch,
+      emotion,
+      chunkPauseMs,
+      markup,
+      dialogue,
+      pronunciations,
+      lexicon,
+    } = parseResult.data;
+    const voice = findVoice(voiceId);
+
+    if (!voice) {
+      return NextResponse.json(
+        { error: "Voz selecionada não encontrada." },
+        { status: 404 },
+      );
+    }
 
-async function processAudio(
-  buffer: Buffer,
-  speed: number,
-  pitch: number,
-): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    const filters = buildFilters(speed, pitch);
-    const chunks: Buffer[] = [];
-    const stream = Readable.from(buffer);
+    const knownVoiceIds = voiceLibrary.map((item) => item.id);
+    const defaults = { voiceId, emotion, speed, pitch };
+    const errors: MarkupError[] = [];
+    const segments: MarkupSegment[] = [];
 
-    const command = ffmpeg(stream).inputFormat("wav");
+    const appendScript = (
+      script: string,
+      scriptDefaults: typeof defaults,
+      cue?: SpeechCue,
+    ) => {
+      if (!markup) {
+        segments.push({
+          kind: "speech",
+          text: script,
+          settings: { ...scriptDefaults, emphasis: false },
+          cue,
+        });
+        return;
+      }
+      const parsed = parseScriptMarkup(script, scriptDefaults, knownVoiceIds);
+      errors.push(...parsed.errors);
+      segments.push(
+        ...parsed.segments.map((segment) => (segment.kind === "speech" ? { ...segment, cue } : segment)),
+      );
+    };
 
-    if (filters.length) {
-      command.audioFilters(filters);
-    }
+    if (dialogue) {
+      const { lines, unassigned } = parseDialogue(text);
+      const speakers = Object.fromEntries(
+        Object.entries(dialogue.speakers).map(([label, id]) => [normalizeSpeaker(label), id]),
+      );
 
-    command
-      .audioCodec("libmp3lame")
-      .audioBitrate("320k")
-      .format("mp3")
-      .on("error", (error) => reject(error))
-      .on("end", () => resolve(Buffer.concat(chunks)));
+      if (!lines.length) {
+        return NextResponse.json(
+          { error: "Nenhuma fala encontrada. Prefixe cada linha com o nome do locutor, como ANA:." },
+          { status: 400 },
+        );
+      }
 
-    const output = command.pipe();
+      if (unassigned) {
+        return NextResponse.json(
+          {
+            error: `O trecho "${unassigned.slice(0, 60)}" aparece antes do primeiro locutor. Prefixe-o com o nome de quem fala, como ANA:.`,
+          },
+          { status: 400 },
+        );
+      }
 
-    output.on("data", (chunk) => chunks.push(chunk));
-    output.on("error", (error) => reject(error));
-  });
-}
+      const unmapped = [...new Set(lines.map((line) => line.speaker))].filter(
+        (speaker) => !speakers[speaker] || !knownVoiceIds.includes(speakers[speaker]),
+      );
+      if (unmapped.length) {
+        return NextResponse.json(
+          { error: `Associe uma voz válida aos locutores: ${unmapped.join(", ")}.` },
+          { status: 400 },
+        );
+      }
 
-export async function POST(request: NextRequest) {
-  try {
-    if (!process.env.OPENAI_API_KEY) {
+      lines.forEach((line, index) => {
+        if (index > 0 && dialogue.linePauseMs > 0) {
+          segments.push({ kind: "pause", seconds: dialogue.linePauseMs / 1000 });
+        }
+        appendScript(
+          line.text,
+          { ...defaults, voiceId: speakers[line.speaker] },
+          { speaker: line.speaker, line: index },
+        );
+      });
+    } else {
+      appendScript(text, defaults);
+    }
+
+    if (errors.length) {
       return NextResponse.json(
         {
-          error:
-            "OPENAI_API_KEY não definido. Configure a variável de ambiente para utilizar o conversor.",
+          error: `Marcação inválida: ${errors
+            .map((item) => `${item.tag} — ${item.message}`)
+            .join(" ")}`,
+          markupErrors: errors,
         },
-        { status: 500 },
+        { status: 400 },
       );
     }
 
-    const body = await request.json();
-    const parseResult = requestSchema.safeParse(body);
-
-    if (!parseResult.success) {
+    if (!segments.some((segment) => segment.kind === "speech")) {
       return NextResponse.json(
-        { error: parseResult.error.flatten().fieldErrors },
+        { error: "O roteiro não contém texto para narrar." },
         { status: 400 },
       );
     }
 
-    const { text, voiceId, speed, pitch } = parseResult.data;
-    const voice = findVoice(voiceId);
+    const plan = planSynthesis(segments, chunkPauseMs / 1000, [
+      ...overridesToLexicon(pronunciations),
+      ...lexicon,
+    ]);
 
-    if (!voice) {
+    if (!plan.ok) {
+      return NextResponse.json({ error: plan.error }, { status: 503 });
+    }
+
+    const meta = {
+      fileName: `aurora-${voice.id}-${Date.now()}.mp3`,
+      chunkCount: plan.units.length,
+      durationEstimateSeconds: plan.estimatedSeconds,
+      provider: plan.providers.join(","),
+    };
+
+    const rate = await consumeRateLimit(clientId);
+
+    if (!rate.allowed) {
       return NextResponse.json(
-        { error: "Voz selecionada não encontrada." },
-        { status: 404 },
+        {
+          error: "Muitas solicitações de síntese em sequência. Aguarde alguns instantes e tente novamente.",
+          retryAt: rate.resetAt,
+        },
+        {
+          status: 429,
+          headers: { ...rateLimitHeaders(rate), "Retry-After": retryAfterSeconds(rate.resetAt) },
+        },
       );
     }
 
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+    const reservation = await reserveDailyQuota({
+      clientId,
+      characters: text.length,
+      voiceId: voice.id,
+      provider: meta.provider,
     });
 
-    const response = await openai.audio.speech.create({
-      model: "gpt-4o-mini-tts",
-      voice: voice.voiceId,
-      input: text,
-      response_format: "wav",
-      speed: 1,
-    });
+    if (!reservation.allowed) {
+      return NextResponse.json(
+        {
+          error: `Cota diária de caracteres esgotada: ${reservation.used.toLocaleString("pt-BR")} de ${reservation.limit.toLocaleString("pt-BR")} já utilizados e este roteiro tem ${text.length.toLocaleString("pt-BR")}. A cota é renovada à meia-noite (UTC).`,
+          quota: quotaStatus(reservation),
+        },
+        {
+          status: 429,
+          headers: { ...rateLimitHeaders(rate), "Retry-After": retryAfterSeconds(reservation.resetAt) },
+        },
+      );
+    }
 
-    const arrayBuffer = await response.arrayBuffer();
-    const wavBuffer = Buffer.from(arrayBuffer);
-    const mp3Buffer = await processAudio(wavBuffer, speed, pitch);
-    const base64 = mp3Buffer.toString("base64");
+    const job = startSynthesisJob(meta, plan.units);
+    trackSynthesisUsage(job, reservation);
 
-    return NextResponse.json({
-      audio: base64,
-      mimeType: "audio/mpeg",
-      fileName: `aurora-${voice.id}-${Date.now()}.mp3`,
-      durationEstimateSeconds: Math.ceil(text.length / 18 / speed),
-    });
+    return NextResponse.json(
+      { jobId: job.id, ...meta },
+      { status: 202, headers: rateLimitHeaders(rate) },
+    );
   } catch (error) {
     console.error("[TTS_ERROR]", error);
     return NextResponse.json(
@@ -162,3 +255,8 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export async function POST(request: NextRequest) {
+  const client = resolveClient(request);
+  return persistClient(await synthesize(request, client.id), client);
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { persistClient, resolveClient, summarizeUsage } from "@/lib/usage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+async function summarize(request: NextRequest, clientId: string) {
+  const parseResult = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!parseResult.success) {
+    return NextResponse.json({ error: parseResult.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  try {
+    const summary = await summarizeUsage(clientId, parseResult.data.days);
+    return NextResponse.json(summary, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("[USAGE_ERROR]", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Falha ao consultar o consumo." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const client = resolveClient(request);
+  return persistClient(await summarize(request, client.id), client);
+}
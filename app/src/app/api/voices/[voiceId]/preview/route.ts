@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+import { findCatalogVoice } from "@/lib/tts/catalog";
+import { emotionIds } from "@/lib/tts/emotions";
+import { Voice, resolveProvider } from "@/lib/tts/providers";
+import {
+  DEFAULT_PREVIEW_SAMPLE,
+  PreviewSample,
+  PreviewSettings,
+  getPreview,
+  isPreviewCached,
+} from "@/lib/tts/preview";
+import { applyLexicon, lexiconEntrySchema, phonemeHints } from "@/lib/tts/pronunciation";
+import {
+  UsageReservation,
+  consumeRateLimit,
+  persistClient,
+  quotaStatus,
+  rateLimitHeaders,
+  reserveDailyQuota,
+  resolveClient,
+  retryAfterSeconds,
+  settleUsage,
+} from "@/lib/usage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ voiceId: string }>;
+};
+
+const querySchema = z.object({
+  speed: z.coerce.number().min(0.5).max(2).default(1),
+  pitch: z.coerce.number().min(-10).max(10).default(0),
+  emotion: z.enum(emotionIds).optional(),
+});
+
+const testSchema = z.object({
+  text: z.string().trim().min(1, "Informe um termo para testar.").max(200),
+  speed: z.number().min(0.5).max(2).default(1),
+  pitch: z.number().min(-10).max(10).default(0),
+  emotion: z.enum(emotionIds).optional(),
+  lexicon: z.array(lexiconEntrySchema).max(500).default([]),
+});
+
+function previewResponse(audio: Buffer, cached: boolean) {
+  return new NextResponse(new Uint8Array(audio), {
+    headers: {
+      "Content-Type": "audio/wav",
+      "Cache-Control": "private, max-age=3600",
+      "X-Aurora-Preview-Cache": cached ? "hit" : "miss",
+    },
+  });
+}
+
+function previewError(error: unknown) {
+  console.error("[VOICE_PREVIEW_ERROR]", error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : "Falha ao gerar a amostra de voz." },
+    { status: 500 },
+  );
+}
+
+const providerUnavailable = () =>
+  NextResponse.json(
+    { error: "Nenhum provedor de voz disponível para esta amostra." },
+    { status: 503 },
+  );
+
+async function servePreview(
+  clientId: string,
+  voice: Voice,
+  settings: PreviewSettings,
+  sample: PreviewSample,
+) {
+  let reservation: UsageReservation | null = null;
+
+  if (!isPreviewCached(voice, settings, sample)) {
+    const rate = await consumeRateLimit(clientId);
+
+    if (!rate.allowed) {
+      return NextResponse.json(
+        {
+          error: "Muitas amostras geradas em sequência. Aguarde alguns instantes e tente novamente.",
+          retryAt: rate.resetAt,
+        },
+        {
+          status: 429,
+          headers: { ...rateLimitHeaders(rate), "Retry-After": retryAfterSeconds(rate.resetAt) },
+        },
+      );
+    }
+
+    reservation = await reserveDailyQuota({
+      clientId,
+      characters: sample.text.length,
+      voiceId: voice.id,
+      provider: resolveProvider(voice)?.id ?? "",
+    });
+
+    if (!reservation.allowed) {
+      return NextResponse.json(
+        {
+          error: "Cota diária de caracteres esgotada. A cota é renovada à meia-noite (UTC).",
+          quota: quotaStatus(reservation),
+        },
+        {
+          status: 429,
+          headers: { ...rateLimitHeaders(rate), "Retry-After": retryAfterSeconds(reservation.resetAt) },
+        },
+      );
+    }
+  }
+
+  try {
+    const { audio, durationSeconds, cached } = await getPreview(voice, settings, sample);
+    if (reservation) {
+      await settleUsage(reservation, { status: cached ? "cached" : "done", audioSeconds: durationSeconds });
+    }
+    return previewResponse(audio, cached);
+  } catch (error) {
+    if (reservation) await settleUsage(reservation, { status: "error" });
+    return previewError(error);
+  }
+}
+
+async function auditionVoice(request: NextRequest, clientId: string, { params }: RouteContext) {
+  const { voiceId } = await params;
+  const voice = findCatalogVoice(voiceId);
+
+  if (!voice) {
+    return NextResponse.json({ error: "Voz selecionada não encontrada." }, { status: 404 });
+  }
+
+  const parseResult = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!parseResult.success) {
+    return NextResponse.json({ error: parseResult.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  if (!resolveProvider(voice)) {
+    return providerUnavailable();
+  }
+
+  const { speed, pitch, emotion = voice.defaultEmotion } = parseResult.data;
+
+  return servePreview(clientId, voice, { speed, pitch, emotion }, DEFAULT_PREVIEW_SAMPLE);
+}
+
+async function testPronunciation(request: NextRequest, clientId: string, { params }: RouteContext) {
+  const { voiceId } = await params;
+  const voice = findCatalogVoice(voiceId);
+
+  if (!voice) {
+    return NextResponse.json({ error: "Voz selecionada não encontrada." }, { status: 404 });
+  }
+
+  const parseResult = testSchema.safeParse(await request.json().catch(() => null));
+
+  if (!parseResult.success) {
+    return NextResponse.json({ error: parseResult.error.flatten().fieldErrors }, { status: 400 });
+  }
+
+  if (!resolveProvider(voice)) {
+    return providerUnavailable();
+  }
+
+  const { text, speed, pitch, emotion = voice.defaultEmotion, lexicon } = parseResult.data;
+
+  return servePreview(
+    clientId,
+    voice,
+    { speed, pitch, emotion },
+    { text: applyLexicon(text, lexicon), hints: phonemeHints(text, lexicon) },
+  );
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const client = resolveClient(request);
+  return persistClient(await auditionVoice(request, client.id, context), client);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const client = resolveClient(request);
+  return persistClient(await testPronunciation(request, client.id, context), client);
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { buildVoiceCatalog } from "@/lib/tts/catalog";
+import { persistClient, resolveClient } from "@/lib/usage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return persistClient(NextResponse.json({ voices: buildVoiceCatalog() }), resolveClient(request));
+}
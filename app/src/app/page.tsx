@@ -1,3 +1,4 @@
+import { ProjectManager } from "@/components/ProjectManager";
 import { TextToSpeechModule } from "@/components/TextToSpeechModule";
 import { VideoComposerModule } from "@/components/VideoComposerModule";
 
@@ -28,6 +29,7 @@ export default function Home() {
           </div>
         </header>
 
+        <ProjectManager />
         <TextToSpeechModule />
         <VideoComposerModule />
       </main>
@@ -0,0 +1,171 @@
+"use client";
+
+import NextImage from "next/image";
+import { useRef, useState } from "react";
+
+import {
+  ClipMotion,
+  FULL_FRAME,
+  FramingRect,
+  MIN_FRAMING_SIZE,
+  MotionPreset,
+  framingRect,
+  motionEasingLabels,
+  motionEasings,
+  presetMotion,
+  randomMotion,
+} from "@/lib/render/motion";
+
+type FramingEdge = "from" | "to";
+
+const presetLabels: Record<MotionPreset, string> = {
+  "zoom-in": "Zoom in",
+  "zoom-out": "Zoom out",
+  "pan-left": "Pan ←",
+  "pan-right": "Pan →",
+  "pan-up": "Pan ↑",
+  "pan-down": "Pan ↓",
+};
+
+const edgeStyles: Record<FramingEdge, string> = {
+  from: "border-emerald-400 bg-emerald-400/10",
+  to: "border-purple-400 bg-purple-400/10",
+};
+
+type MotionEditorProps = {
+  motion: ClipMotion | undefined;
+  imageUrl: string;
+  frameAspect: number;
+  onChange: (motion: ClipMotion | undefined) => void;
+};
+
+export function MotionEditor({ motion, imageUrl, frameAspect, onChange }: MotionEditorProps) {
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const dragging = useRef(false);
+  const [edge, setEdge] = useState<FramingEdge>("from");
+
+  const current: ClipMotion = motion ?? { from: FULL_FRAME, to: FULL_FRAME, easing: "ease-in-out" };
+  const active = current[edge];
+
+  const updateRect = (rect: FramingRect) => onChange({ ...current, [edge]: rect });
+
+  const moveTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = frameRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    const centerX = (event.clientX - bounds.left) / bounds.width;
+    const centerY = (event.clientY - bounds.top) / bounds.height;
+    updateRect(framingRect(active.width, centerX, centerY));
+  };
+
+  const chipClass = (isActive: boolean) =>
+    `rounded-full px-3 py-2 text-[10px] uppercase tracking-[0.35em] transition ${isActive ? "bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 text-white shadow-[0_0_24px_rgba(93,118,255,0.45)]" : "border border-white/10 bg-slate-900/80 text-slate-200/70 hover:border-blue-400/40"}`;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+      <label className="text-xs uppercase tracking-[0.3em] text-slate-300/70">Movimento (Ken Burns)</label>
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => onChange(undefined)} className={chipClass(!motion)}>
+          Estático
+        </button>
+        {(Object.keys(presetLabels) as MotionPreset[]).map((preset) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => onChange(presetMotion(preset, current.easing))}
+            className={chipClass(false)}
+          >
+            {presetLabels[preset]}
+          </button>
+        ))}
+        <button type="button" onClick={() => onChange(randomMotion())} className={chipClass(false)}>
+          Aleatório
+        </button>
+      </div>
+
+      {motion && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {motionEasings.map((easing) => (
+              <button
+                key={easing}
+                type="button"
+                onClick={() => onChange({ ...motion, easing })}
+                className={chipClass(motion.easing === easing)}
+              >
+                {motionEasingLabels[easing]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            {(["from", "to"] as FramingEdge[]).map((option) => (
+              <button key={option} type="button" onClick={() => setEdge(option)} className={chipClass(edge === option)}>
+                {option === "from" ? "Enquadramento inicial" : "Enquadramento final"}
+              </button>
+            ))}
+          </div>
+
+          <div
+            ref={frameRef}
+            style={{ aspectRatio: frameAspect }}
+            className="relative w-full cursor-move touch-none overflow-hidden rounded-lg border border-white/10 bg-[#050814]"
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId);
+              dragging.current = true;
+              moveTo(event);
+            }}
+            onPointerMove={(event) => {
+              if (dragging.current) moveTo(event);
+            }}
+            onPointerUp={() => {
+              dragging.current = false;
+            }}
+          >
+            <NextImage src={imageUrl} alt="" fill unoptimized className="pointer-events-none object-contain" />
+            {(["from", "to"] as FramingEdge[]).map((option) => {
+              const rect = motion[option];
+              return (
+                <div
+                  key={option}
+                  className={`pointer-events-none absolute border-2 ${edgeStyles[option]} ${edge === option ? "" : "opacity-50"}`}
+                  style={{
+                    left: `${rect.x * 100}%`,
+                    top: `${rect.y * 100}%`,
+                    width: `${rect.width * 100}%`,
+                    height: `${rect.height * 100}%`,
+                  }}
+                >
+                  <span className="absolute left-1 top-1 text-[9px] uppercase tracking-[0.3em] text-white">
+                    {option === "from" ? "Início" : "Fim"}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <label className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-300/70">
+            <span>Zoom do enquadramento</span>
+            <span>{(1 / active.width).toFixed(2)}×</span>
+          </label>
+          <input
+            type="range"
+            min={1}
+            max={1 / MIN_FRAMING_SIZE}
+            step={0.01}
+            value={1 / active.width}
+            onChange={(event) =>
+              updateRect(
+                framingRect(
+                  1 / Number(event.target.value),
+                  active.x + active.width / 2,
+                  active.y + active.height / 2,
+                ),
+              )
+            }
+            className="accent-blue-400"
+          />
+        </>
+      )}
+    </div>
+  );
+}
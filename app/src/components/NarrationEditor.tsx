@@ -0,0 +1,372 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { GeneratedAudio, useAppStore } from "@/state/useAppStore";
+import { LevelAnalysis, analyzeLevels } from "@/utils/ducking";
+import {
+  AudioEdit,
+  TimeRange,
+  resolveKeptRanges,
+  splitPoints,
+} from "@/utils/narrationEdits";
+import { decodeNarrationCached, useRenderedNarration } from "@/utils/useRenderedNarration";
+
+const WAVEFORM_WIDTH = 960;
+const WAVEFORM_HEIGHT = 140;
+
+type Waveform = {
+  duration: number;
+  peaks: Float32Array;
+  analysis: LevelAnalysis;
+};
+
+type Selection = TimeRange | null;
+
+function computePeaks(buffer: AudioBuffer, buckets: number) {
+  const peaks = new Float32Array(buckets);
+  const size = Math.max(1, Math.floor(buffer.length / buckets));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let bucket = 0; bucket < buckets; bucket += 1) {
+      let peak = 0;
+      for (let index = bucket * size; index < Math.min(data.length, (bucket + 1) * size); index += 1) {
+        peak = Math.max(peak, Math.abs(data[index]));
+      }
+      peaks[bucket] = Math.max(peaks[bucket], peak);
+    }
+  }
+  return peaks;
+}
+
+function describeEdit(edit: AudioEdit) {
+  switch (edit.type) {
+    case "trim":
+      return `Recorte ${edit.start.toFixed(2)}s → ${edit.end.toFixed(2)}s`;
+    case "split":
+      return `Divisão em ${edit.at.toFixed(2)}s`;
+    case "delete":
+      return `Exclusão ${edit.start.toFixed(2)}s → ${edit.end.toFixed(2)}s`;
+    case "gain":
+      return `Ganho ${edit.gainDb > 0 ? "+" : ""}${edit.gainDb.toFixed(1)} dB em ${edit.start.toFixed(2)}s → ${edit.end.toFixed(2)}s`;
+    case "fade":
+      return `Fade ${edit.direction === "in" ? "de entrada" : "de saída"} ${edit.duration.toFixed(1)}s`;
+    case "silence":
+      return `Remoção de silêncios < ${edit.thresholdDb} dB (mín. ${edit.minSilenceMs} ms)`;
+  }
+}
+
+type NarrationEditorProps = {
+  audio: GeneratedAudio;
+};
+
+export function NarrationEditor({ audio }: NarrationEditorProps) {
+  const setAudioEdits = useAppStore((state) => state.setAudioEdits);
+  const edits = useMemo(() => audio.edits ?? [], [audio.edits]);
+  const rendered = useRenderedNarration(audio);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragStart = useRef<number | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [cursor, setCursor] = useState(0);
+  const [gainDb, setGainDb] = useState(3);
+  const [silence, setSilence] = useState({ thresholdDb: -45, minSilenceMs: 600, paddingMs: 120 });
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeNarrationCached(audio.blob)
+      .then((buffer) => {
+        if (cancelled) return;
+        setWaveform({
+          duration: buffer.duration,
+          peaks: computePeaks(buffer, WAVEFORM_WIDTH),
+          analysis: analyzeLevels(buffer),
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setWaveform(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [audio.blob]);
+
+  const keptRanges = useMemo(
+    () => (waveform ? resolveKeptRanges(edits, waveform.duration, waveform.analysis) : []),
+    [edits, waveform],
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !waveform) return;
+    const { width, height } = ctx.canvas;
+    const toX = (time: number) => (time / waveform.duration) * width;
+
+    ctx.fillStyle = "#050814";
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.fillStyle = "rgba(148,163,255,0.8)";
+    waveform.peaks.forEach((peak, index) => {
+      const barHeight = Math.max(1, peak * height * 0.9);
+      ctx.fillRect(index * (width / waveform.peaks.length), (height - barHeight) / 2, 1, barHeight);
+    });
+
+    ctx.fillStyle = "rgba(239,68,68,0.35)";
+    let previousEnd = 0;
+    [...keptRanges, { start: waveform.duration, end: waveform.duration }].forEach((range) => {
+      if (range.start > previousEnd) {
+        ctx.fillRect(toX(previousEnd), 0, toX(range.start) - toX(previousEnd), height);
+      }
+      previousEnd = range.end;
+    });
+
+    edits.forEach((edit) => {
+      if (edit.type !== "gain") return;
+      ctx.fillStyle = edit.gainDb >= 0 ? "rgba(250,204,21,0.2)" : "rgba(56,189,248,0.2)";
+      ctx.fillRect(toX(edit.start), 0, toX(edit.end) - toX(edit.start), height);
+    });
+
+    ctx.fillStyle = "rgba(255,255,255,0.85)";
+    splitPoints(edits).forEach((at) => ctx.fillRect(toX(at), 0, 2, height));
+
+    if (selection) {
+      ctx.fillStyle = "rgba(96,165,250,0.3)";
+      ctx.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), height);
+    }
+
+    ctx.fillStyle = "#a855f7";
+    ctx.fillRect(toX(cursor), 0, 2, height);
+  }, [waveform, keptRanges, edits, selection, cursor]);
+
+  const timeFromEvent = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!waveform) return 0;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    return ratio * waveform.duration;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStart.current = timeFromEvent(event);
+    setCursor(dragStart.current);
+    setSelection(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragStart.current === null) return;
+    const time = timeFromEvent(event);
+    const start = Math.min(dragStart.current, time);
+    const end = Math.max(dragStart.current, time);
+    setSelection(end - start > 0.02 ? { start, end } : null);
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleDoubleClick = () => {
+    if (!waveform) return;
+    const points = [0, ...splitPoints(edits), waveform.duration];
+    const index = points.findIndex((point) => point > cursor);
+    if (index > 0) setSelection({ start: points[index - 1], end: points[index] });
+  };
+
+  const commit = (next: AudioEdit[]) => setAudioEdits(audio.id, next);
+  const withoutType = (type: AudioEdit["type"]) => edits.filter((edit) => edit.type !== type);
+
+  const handleTrim = () => {
+    if (!selection) return;
+    commit([...withoutType("trim"), { id: crypto.randomUUID(), type: "trim", ...selection }]);
+  };
+
+  const handleSplit = () => {
+    commit([...edits, { id: crypto.randomUUID(), type: "split", at: cursor }]);
+  };
+
+  const handleDelete = () => {
+    if (!selection) return;
+    commit([...edits, { id: crypto.randomUUID(), type: "delete", ...selection }]);
+    setSelection(null);
+  };
+
+  const handleGain = () => {
+    if (!selection) return;
+    commit([...edits, { id: crypto.randomUUID(), type: "gain", ...selection, gainDb }]);
+  };
+
+  const handleFade = (direction: "in" | "out", duration: number) => {
+    const others = edits.filter((edit) => !(edit.type === "fade" && edit.direction === direction));
+    const existing = edits.find((edit) => edit.type === "fade" && edit.direction === direction);
+    setAudioEdits(
+      audio.id,
+      duration > 0
+        ? [...others, { id: existing?.id ?? crypto.randomUUID(), type: "fade", direction, duration }]
+        : others,
+      { coalesceKey: `fade:${audio.id}:${direction}` },
+    );
+  };
+
+  const handleRemoveSilence = () => {
+    commit([...withoutType("silence"), { id: crypto.randomUUID(), type: "silence", ...silence }]);
+  };
+
+  const fadeDuration = (direction: "in" | "out") => {
+    const fade = edits.find((edit) => edit.type === "fade" && edit.direction === direction);
+    return fade?.type === "fade" ? fade.duration : 0;
+  };
+
+  const actionClass =
+    "rounded-full border border-white/10 px-3 py-2 text-[10px] uppercase tracking-[0.3em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-40";
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-slate-900/70 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Editor de locução</h3>
+          <p className="text-sm text-slate-300/75">
+            Arraste para selecionar, clique para posicionar o cursor e dê duplo clique para selecionar o trecho entre
+            divisões. O arquivo original é preservado.
+          </p>
+        </div>
+        <span className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.4em] text-slate-200/70">
+          {(rendered?.duration ?? 0).toFixed(1)}s
+        </span>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={WAVEFORM_WIDTH}
+        height={WAVEFORM_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        className="h-[140px] w-full cursor-crosshair rounded-xl border border-white/10"
+      />
+
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-[0.3em] text-slate-400/80">
+        <span>Cursor: {cursor.toFixed(2)}s</span>
+        <span>
+          {selection
+            ? `Seleção: ${selection.start.toFixed(2)}s → ${selection.end.toFixed(2)}s`
+            : "Nenhuma seleção"}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={handleTrim} disabled={!selection} className={actionClass}>
+          Manter só a seleção
+        </button>
+        <button type="button" onClick={handleSplit} disabled={!waveform} className={actionClass}>
+          Dividir no cursor
+        </button>
+        <button type="button" onClick={handleDelete} disabled={!selection} className={actionClass}>
+          Excluir seleção
+        </button>
+        <button type="button" onClick={() => commit([])} disabled={!edits.length} className={actionClass}>
+          Restaurar original
+        </button>
+      </div>
+
+      <div className="grid gap-4 rounded-xl border border-white/10 bg-white/5 p-4 md:grid-cols-2">
+        <label className="flex flex-col gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70">
+          <span className="flex justify-between">
+            <span>Ganho da seleção</span>
+            <span>
+              {gainDb > 0 ? "+" : ""}
+              {gainDb.toFixed(1)} dB
+            </span>
+          </span>
+          <input
+            type="range"
+            min={-18}
+            max={12}
+            step={0.5}
+            value={gainDb}
+            onChange={(event) => setGainDb(Number(event.target.value))}
+            className="accent-blue-400"
+          />
+          <button type="button" onClick={handleGain} disabled={!selection} className={actionClass}>
+            Aplicar ganho
+          </button>
+        </label>
+        <div className="flex flex-col gap-3">
+          {(["in", "out"] as const).map((direction) => (
+            <label
+              key={direction}
+              className="flex flex-col gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70"
+            >
+              <span className="flex justify-between">
+                <span>{direction === "in" ? "Fade de entrada" : "Fade de saída"}</span>
+                <span>{fadeDuration(direction).toFixed(1)}s</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={5}
+                step={0.1}
+                value={fadeDuration(direction)}
+                onChange={(event) => handleFade(direction, Number(event.target.value))}
+                className="accent-blue-400"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-4 rounded-xl border border-white/10 bg-white/5 p-4 md:grid-cols-3">
+        {(
+          [
+            ["thresholdDb", "Limiar", -70, -20, 1, "dB"],
+            ["minSilenceMs", "Silêncio mínimo", 150, 3000, 50, "ms"],
+            ["paddingMs", "Margem", 0, 500, 10, "ms"],
+          ] as const
+        ).map(([key, label, min, max, step, unit]) => (
+          <label key={key} className="flex flex-col gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70">
+            <span className="flex justify-between">
+              <span>{label}</span>
+              <span>
+                {silence[key]} {unit}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={silence[key]}
+              onChange={(event) => setSilence((state) => ({ ...state, [key]: Number(event.target.value) }))}
+              className="accent-blue-400"
+            />
+          </label>
+        ))}
+        <button type="button" onClick={handleRemoveSilence} disabled={!waveform} className={actionClass}>
+          Remover silêncios
+        </button>
+      </div>
+
+      {edits.length > 0 && (
+        <ul className="space-y-2">
+          {edits.map((edit) => (
+            <li
+              key={edit.id}
+              className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-xs text-slate-200/80"
+            >
+              <span>{describeEdit(edit)}</span>
+              <button
+                type="button"
+                onClick={() => commit(edits.filter((item) => item.id !== edit.id))}
+                className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-red-400/40 hover:text-red-200"
+              >
+                Remover
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {rendered && <audio controls src={rendered.url} className="w-full" />}
+    </div>
+  );
+}
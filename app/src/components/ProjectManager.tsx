@@ -0,0 +1,343 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { ProjectState, useAppStore } from "@/state/useAppStore";
+import {
+  ProjectSummary,
+  deleteProject,
+  duplicateProject,
+  getLastProjectId,
+  listProjects,
+  loadProject,
+  revokeProjectUrls,
+  saveProject,
+} from "@/utils/projectStorage";
+import {
+  BUNDLE_EXTENSION,
+  exportProjectBundle,
+  importProjectBundle,
+} from "@/utils/projectBundle";
+
+const AUTOSAVE_DELAY = 1000;
+
+type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+function pickProjectState(state: ProjectState): ProjectState {
+  return {
+    audios: state.audios,
+    mediaLibrary: state.mediaLibrary,
+    timeline: state.timeline,
+    audioTracks: state.audioTracks,
+    overlays: state.overlays,
+    ducking: state.ducking,
+    captionSettings: state.captionSettings,
+    lexicon: state.lexicon,
+    mode: state.mode,
+    exportPresetId: state.exportPresetId,
+    activeAudioId: state.activeAudioId,
+  };
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function ProjectManager() {
+  const { projectId, projectName, setProject, reset, undo, redo, canUndo, canRedo } = useAppStore(
+    (state) => ({
+      projectId: state.projectId,
+      projectName: state.projectName,
+      setProject: state.setProject,
+      reset: state.reset,
+      undo: state.undo,
+      redo: state.redo,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+    }),
+  );
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const isLoading = useRef(true);
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const refreshProjects = useCallback(async () => {
+    setProjects(await listProjects());
+  }, []);
+
+  const persist = useCallback(async () => {
+    const state = useAppStore.getState();
+    if (!state.projectId) return;
+    setSaveStatus("saving");
+    try {
+      await saveProject(state.projectId, state.projectName, pickProjectState(state));
+      setSaveStatus("saved");
+      await refreshProjects();
+    } catch (err) {
+      setSaveStatus("error");
+      setError(err instanceof Error ? err.message : "Falha ao salvar o projeto.");
+    }
+  }, [refreshProjects]);
+
+  const openProject = useCallback(async (id: string) => {
+    isLoading.current = true;
+    try {
+      const loaded = await loadProject(id);
+      if (!loaded) return false;
+      revokeProjectUrls(useAppStore.getState());
+      useAppStore.getState().loadProject(id, loaded.name, loaded.state);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao abrir o projeto.");
+      return false;
+    } finally {
+      isLoading.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    const recover = async () => {
+      const lastId = getLastProjectId();
+      const restored = lastId ? await openProject(lastId) : false;
+      if (!restored) {
+        useAppStore.getState().setProject(crypto.randomUUID(), "Projeto sem título");
+      }
+      isLoading.current = false;
+      await refreshProjects();
+    };
+    recover();
+  }, [openProject, refreshProjects]);
+
+  useEffect(() => {
+    const unsubscribe = useAppStore.subscribe((state, previous) => {
+      if (isLoading.current || !state.projectId) return;
+      const changed =
+        state.audios !== previous.audios ||
+        state.mediaLibrary !== previous.mediaLibrary ||
+        state.timeline !== previous.timeline ||
+        state.audioTracks !== previous.audioTracks ||
+        state.overlays !== previous.overlays ||
+        state.ducking !== previous.ducking ||
+        state.captionSettings !== previous.captionSettings ||
+        state.lexicon !== previous.lexicon ||
+        state.mode !== previous.mode ||
+        state.exportPresetId !== previous.exportPresetId ||
+        state.activeAudioId !== previous.activeAudioId ||
+        state.projectName !== previous.projectName;
+      if (!changed) return;
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(persist, AUTOSAVE_DELAY);
+    });
+    return () => {
+      unsubscribe();
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+    };
+  }, [persist]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      const isTextField =
+        target?.isContentEditable ||
+        target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLInputElement && target.type !== "range");
+      if (isTextField) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        useAppStore.getState().undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        useAppStore.getState().redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleNewProject = () => {
+    isLoading.current = true;
+    reset();
+    setProject(crypto.randomUUID(), "Projeto sem título");
+    isLoading.current = false;
+    setSaveStatus("idle");
+  };
+
+  const handleExportBundle = async () => {
+    const state = useAppStore.getState();
+    try {
+      const blob = await exportProjectBundle(state.projectName, pickProjectState(state));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${state.projectName.trim() || "projeto"}${BUNDLE_EXTENSION}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao exportar o projeto.");
+    }
+  };
+
+  const handleImportBundle = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    isLoading.current = true;
+    try {
+      const imported = await importProjectBundle(file);
+      revokeProjectUrls(useAppStore.getState());
+      useAppStore.getState().loadProject(crypto.randomUUID(), imported.name, imported.state);
+      setError(null);
+      isLoading.current = false;
+      await persist();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao importar o projeto.");
+    } finally {
+      isLoading.current = false;
+    }
+  };
+
+  const handleDuplicate = async (project: ProjectSummary) => {
+    if (project.id === projectId) await persist();
+    await duplicateProject(project.id, `${project.name} (cópia)`);
+    await refreshProjects();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Excluir o projeto "${project.name}"? Esta ação não pode ser desfeita.`)) {
+      return;
+    }
+    await deleteProject(project.id);
+    if (project.id === projectId) handleNewProject();
+    await refreshProjects();
+  };
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-white/5 p-6 backdrop-blur-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-1 flex-col gap-1">
+          <span className="text-xs uppercase tracking-[0.4em] text-slate-300/70">Projeto atual</span>
+          <input
+            value={projectName}
+            onChange={(event) => setProject(projectId, event.target.value)}
+            className="w-full max-w-md rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-white outline-none focus:border-blue-400/60"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] uppercase tracking-[0.35em] text-slate-400/80">
+            {saveStatus === "saving"
+              ? "Salvando..."
+              : saveStatus === "saved"
+                ? "Salvo no navegador"
+                : saveStatus === "error"
+                  ? "Erro ao salvar"
+                  : "Salvamento automático"}
+          </span>
+          <button
+            type="button"
+            onClick={undo}
+            disabled={!canUndo}
+            title="Desfazer (Ctrl+Z)"
+            className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-40"
+          >
+            Desfazer
+          </button>
+          <button
+            type="button"
+            onClick={redo}
+            disabled={!canRedo}
+            title="Refazer (Ctrl+Shift+Z)"
+            className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-40"
+          >
+            Refazer
+          </button>
+          <label className="cursor-pointer rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50">
+            Importar {BUNDLE_EXTENSION}
+            <input
+              type="file"
+              accept={`${BUNDLE_EXTENSION},application/zip`}
+              onChange={handleImportBundle}
+              className="hidden"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleExportBundle}
+            className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50"
+          >
+            Exportar {BUNDLE_EXTENSION}
+          </button>
+          <button
+            type="button"
+            onClick={handleNewProject}
+            className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50"
+          >
+            Novo projeto
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-xl border border-red-400/40 bg-red-500/10 p-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {projects.length > 0 && (
+        <div className="mt-6 grid gap-3 md:grid-cols-2">
+          {projects.map((project) => {
+            const isActive = project.id === projectId;
+            return (
+              <div
+                key={project.id}
+                className={`flex items-center justify-between gap-3 rounded-xl border p-4 ${isActive ? "border-blue-400/50 bg-blue-500/10" : "border-white/10 bg-slate-900/60"}`}
+              >
+                <div className="flex flex-col">
+                  <span className="text-sm font-semibold text-white">{project.name}</span>
+                  <span className="text-xs text-slate-300/70">
+                    {project.audioCount} áudios • {project.mediaCount} mídias • {formatDate(project.updatedAt)}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  {!isActive && (
+                    <button
+                      type="button"
+                      onClick={() => openProject(project.id)}
+                      className="rounded-full border border-blue-400/50 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-blue-100 transition hover:shadow-[0_0_20px_rgba(88,141,255,0.4)]"
+                    >
+                      Abrir
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleDuplicate(project)}
+                    className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-blue-400/40"
+                  >
+                    Duplicar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(project)}
+                    className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-red-400/40 hover:text-red-200"
+                  >
+                    Excluir
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
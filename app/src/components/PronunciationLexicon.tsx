@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { Emotion } from "@/lib/voices";
+import {
+  LexiconEntry,
+  LexiconFile,
+  applyLexicon,
+  lexiconFileSchema,
+  lexiconKindLabels,
+  lexiconKinds,
+} from "@/lib/tts/pronunciation";
+import { useAppStore } from "@/state/useAppStore";
+
+type PronunciationLexiconProps = {
+  voiceId: string;
+  speed: number;
+  pitch: number;
+  emotion: Emotion;
+};
+
+type EntryDraft = Omit<LexiconEntry, "id">;
+
+const EMPTY_DRAFT: EntryDraft = {
+  term: "",
+  replacement: "",
+  kind: "respelling",
+  caseSensitive: false,
+  wholeWord: true,
+};
+
+const LEXICON_FILE_NAME = "lexico-pronuncia.json";
+
+function mergeEntries(current: LexiconEntry[], incoming: EntryDraft[]) {
+  const merged = [...current];
+  incoming.forEach((entry) => {
+    const index = merged.findIndex(
+      (item) => item.term.toLowerCase() === entry.term.toLowerCase() && item.caseSensitive === entry.caseSensitive,
+    );
+    const next = { ...entry, id: index >= 0 ? merged[index].id : crypto.randomUUID() };
+    if (index >= 0) {
+      merged[index] = next;
+    } else {
+      merged.push(next);
+    }
+  });
+  return merged;
+}
+
+function toggleClass(active: boolean) {
+  return `rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.3em] transition ${active ? "bg-blue-500/30 text-white" : "border border-white/10 text-slate-200/70 hover:border-blue-400/40"}`;
+}
+
+export function PronunciationLexicon({ voiceId, speed, pitch, emotion }: PronunciationLexiconProps) {
+  const { lexicon, setLexicon } = useAppStore((state) => ({
+    lexicon: state.lexicon,
+    setLexicon: state.setLexicon,
+  }));
+  const [draft, setDraft] = useState<EntryDraft>(EMPTY_DRAFT);
+  const [testWord, setTestWord] = useState("");
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const testAudio = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    return () => {
+      testAudio.current?.pause();
+      if (testAudio.current) URL.revokeObjectURL(testAudio.current.src);
+    };
+  }, []);
+
+  const updateEntry = (id: string, patch: Partial<LexiconEntry>) => {
+    setLexicon(lexicon.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleAdd = () => {
+    const term = draft.term.trim();
+    const replacement = draft.replacement.trim();
+    if (!term || !replacement) {
+      setError("Informe o termo e como ele deve ser pronunciado.");
+      return;
+    }
+    setLexicon(mergeEntries(lexicon, [{ ...draft, term, replacement }]));
+    setDraft({ ...EMPTY_DRAFT, kind: draft.kind });
+    setError(null);
+  };
+
+  const handleExport = () => {
+    const file: LexiconFile = {
+      version: 1,
+      entries: lexicon,
+    };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = LEXICON_FILE_NAME;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 2000);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const parseResult = lexiconFileSchema.safeParse(JSON.parse(await file.text()));
+      if (!parseResult.success) {
+        throw new Error(
+          `Léxico inválido: ${parseResult.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")}`,
+        );
+      }
+      setLexicon(mergeEntries(lexicon, parseResult.data.entries));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Falha ao importar o léxico.");
+    }
+  };
+
+  const handleTest = async () => {
+    const text = testWord.trim();
+    if (!text) return;
+    setTesting(true);
+    try {
+      const response = await fetch(`/api/voices/${encodeURIComponent(voiceId)}/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text, speed, pitch, emotion, lexicon }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(
+          typeof payload?.error === "string" ? payload.error : "Não foi possível testar a pronúncia.",
+        );
+      }
+      testAudio.current?.pause();
+      if (testAudio.current) URL.revokeObjectURL(testAudio.current.src);
+      testAudio.current = new Audio(URL.createObjectURL(await response.blob()));
+      await testAudio.current.play();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Não foi possível testar a pronúncia.");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const inputClass =
+    "min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-sm text-slate-100 outline-none focus:border-blue-400/60";
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Dicionário de pronúncia</h3>
+          <p className="text-sm text-slate-300/70">
+            Ensine às vozes como falar marcas, siglas e termos em inglês deste projeto.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <label className="cursor-pointer rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/80 transition hover:border-blue-400/50">
+            Importar JSON
+            <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </label>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={lexicon.length === 0}
+            className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-40"
+          >
+            Exportar JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-col gap-3">
+        {lexicon.length === 0 && (
+          <span className="text-sm text-slate-400/70">Nenhum termo cadastrado neste projeto.</span>
+        )}
+        {lexicon.map((entry) => (
+          <div
+            key={entry.id}
+            className="flex flex-wrap items-center gap-2 rounded-xl border border-white/5 bg-slate-900/70 p-3"
+          >
+            <span className="text-sm font-semibold text-white">{entry.term}</span>
+            <span className="text-slate-400/70">→</span>
+            <span className="text-sm text-slate-200/80">
+              {entry.kind === "phoneme" ? `/${entry.replacement}/` : entry.replacement}
+            </span>
+            <div className="ml-auto flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => updateEntry(entry.id, { caseSensitive: !entry.caseSensitive })}
+                className={toggleClass(entry.caseSensitive)}
+                title="Diferenciar maiúsculas"
+              >
+                Aa
+              </button>
+              <button
+                type="button"
+                onClick={() => updateEntry(entry.id, { wholeWord: !entry.wholeWord })}
+                className={toggleClass(entry.wholeWord)}
+              >
+                Palavra inteira
+              </button>
+              <button
+                type="button"
+                onClick={() => setLexicon(lexicon.filter((item) => item.id !== entry.id))}
+                className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-300/70 transition hover:border-red-400/40 hover:text-red-200"
+              >
+                Remover
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex flex-col gap-3 rounded-xl border border-white/10 bg-slate-900/70 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={draft.term}
+            onChange={(event) => setDraft((current) => ({ ...current, term: event.target.value }))}
+            placeholder="Termo (ex.: SaaS)"
+            className={inputClass}
+          />
+          <span className="text-slate-400/70">→</span>
+          <input
+            value={draft.replacement}
+            onChange={(event) => setDraft((current) => ({ ...current, replacement: event.target.value }))}
+            placeholder={draft.kind === "phoneme" ? "Fonemas (ex.: sas)" : "Pronúncia (ex.: sás)"}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {lexiconKinds.map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => setDraft((current) => ({ ...current, kind }))}
+              className={toggleClass(draft.kind === kind)}
+            >
+              {lexiconKindLabels[kind]}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setDraft((current) => ({ ...current, caseSensitive: !current.caseSensitive }))}
+            className={toggleClass(draft.caseSensitive)}
+          >
+            Diferenciar maiúsculas
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft((current) => ({ ...current, wholeWord: !current.wholeWord }))}
+            className={toggleClass(draft.wholeWord)}
+          >
+            Palavra inteira
+          </button>
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="ml-auto rounded-full border border-blue-400/40 px-4 py-2 text-xs uppercase tracking-[0.3em] text-blue-100 transition hover:bg-blue-500/20"
+          >
+            Adicionar termo
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <input
+          value={testWord}
+          onChange={(event) => setTestWord(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") handleTest();
+          }}
+          placeholder="Testar uma palavra"
+          maxLength={200}
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={handleTest}
+          disabled={testing || !testWord.trim()}
+          className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-40"
+        >
+          {testing ? "Gerando..." : "Ouvir"}
+        </button>
+        {testWord.trim() && (
+          <span className="w-full text-xs text-slate-400/70">
+            Texto enviado à voz: {applyLexicon(testWord.trim(), lexicon)}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-200">{error}</p>}
+    </div>
+  );
+}
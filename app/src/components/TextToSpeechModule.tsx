@@ -3,11 +3,34 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { emotions, voiceLibrary } from "@/lib/voices";
-import { base64ToBlob, getAudioDuration } from "@/utils/audio";
-import { useAppStore } from "@/state/useAppStore";
+import { detectSpeakers } from "@/lib/tts/dialogue";
+import type { VoiceCatalogEntry } from "@/lib/tts/catalog";
+import type { PronunciationOverride } from "@/lib/tts/pronunciation";
+import { createStreamingPlayback, getAudioDuration } from "@/utils/audio";
+import { useVoiceCatalog } from "@/utils/useVoiceCatalog";
+import { VoicePreset, saveVoicePresets, useVoicePresets } from "@/utils/voicePresets";
+import { NarrationCue, useAppStore } from "@/state/useAppStore";
+import { PronunciationLexicon } from "@/components/PronunciationLexicon";
 
 type ProgressState = "idle" | "preparing" | "processing" | "finalizing";
 
+type ScriptMode = "narração" | "diálogo";
+
+type TtsJobEvent =
+  | { type: "chunk"; completed: number; total: number; etaSeconds: number | null }
+  | { type: "encoding"; percent: number }
+  | { type: "done"; durationSeconds: number; timings: NarrationCue[] }
+  | { type: "error"; message: string }
+  | { type: "cancelled" };
+
+type ActiveJob = {
+  id: string;
+  events: EventSource;
+  download: AbortController;
+};
+
+const SYNTHESIS_WEIGHT = 80;
+
 const MAX_CHARACTERS = 100_000;
 
 function formatDuration(seconds: number) {
@@ -23,67 +46,202 @@ export function TextToSpeechModule() {
     addAudio,
     activeAudioId,
     setActiveAudio,
+    lexicon,
   } = useAppStore((state) => ({
     audios: state.audios,
     addAudio: state.addAudio,
     activeAudioId: state.activeAudioId,
     setActiveAudio: state.setActiveAudio,
+    lexicon: state.lexicon,
   }));
   const [text, setText] = useState("");
+  const [scriptMode, setScriptMode] = useState<ScriptMode>("narração");
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});
   const [voiceId, setVoiceId] = useState(voiceLibrary[0].id);
   const [speed, setSpeed] = useState(1);
   const [pitch, setPitch] = useState(0);
   const [emotion, setEmotion] = useState(voiceLibrary[0].defaultEmotion);
-  const [progress, setProgress] = useState(0);
+  const presets = useVoicePresets();
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [pronunciationDraft, setPronunciationDraft] = useState<PronunciationOverride[]>([]);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const previewAudio = useRef<HTMLAudioElement | null>(null);
   const [status, setStatus] = useState<ProgressState>("idle");
   const [error, setError] = useState<string | null>(null);
-  const progressTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [streamingUrl, setStreamingUrl] = useState<string | null>(null);
+  const streamingAudio = useRef<HTMLAudioElement | null>(null);
+  const [chunkProgress, setChunkProgress] = useState({ completed: 0, total: 0 });
+  const [encodingPercent, setEncodingPercent] = useState(0);
+  const [etaSeconds, setEtaSeconds] = useState<number | null>(null);
+  const activeJob = useRef<ActiveJob | null>(null);
+
+  const catalog = useVoiceCatalog();
 
   useEffect(() => {
     return () => {
-      if (progressTimer.current) {
-        clearInterval(progressTimer.current);
-      }
+      activeJob.current?.events.close();
+      activeJob.current?.download.abort();
+      previewAudio.current?.pause();
     };
   }, []);
 
   const groupedVoices = useMemo(() => {
     return {
-      masculino: voiceLibrary.filter((voice) => voice.gender === "masculino"),
-      feminino: voiceLibrary.filter((voice) => voice.gender === "feminino"),
+      masculino: catalog.filter((voice) => voice.gender === "masculino"),
+      feminino: catalog.filter((voice) => voice.gender === "feminino"),
     };
-  }, []);
+  }, [catalog]);
 
-  const currentVoice = useMemo(
-    () => voiceLibrary.find((voice) => voice.id === voiceId) ?? voiceLibrary[0],
-    [voiceId],
+  const activePreset = useMemo(
+    () => presets.find((preset) => preset.id === presetId) ?? null,
+    [presets, presetId],
   );
 
-  useEffect(() => {
-    setEmotion(currentVoice.defaultEmotion);
-  }, [currentVoice]);
-
-  const beginProgress = () => {
-    setProgress(10);
-    setStatus("preparing");
-    if (progressTimer.current) clearInterval(progressTimer.current);
-    progressTimer.current = setInterval(() => {
-      setProgress((value) => {
-        if (value >= 85) {
-          if (progressTimer.current) clearInterval(progressTimer.current);
-          return value;
-        }
-        const increment = Math.random() * 5;
-        return Math.min(value + increment, 85);
-      });
-    }, 500);
+  const speakers = useMemo(
+    () => (scriptMode === "diálogo" ? detectSpeakers(text) : []),
+    [scriptMode, text],
+  );
+
+  const speakerMapping = useMemo(
+    () =>
+      Object.fromEntries(
+        speakers.map((speaker, index) => [
+          speaker,
+          speakerVoices[speaker] ?? voiceLibrary[index % voiceLibrary.length].id,
+        ]),
+      ),
+    [speakers, speakerVoices],
+  );
+
+  const updatePresets = (next: VoicePreset[]) => {
+    saveVoicePresets(next);
   };
 
-  const finalizeProgress = () => {
-    if (progressTimer.current) clearInterval(progressTimer.current);
-    setStatus("finalizing");
-    setProgress(100);
-    setTimeout(() => setStatus("idle"), 800);
+  const handleSelectVoice = (voice: VoiceCatalogEntry) => {
+    setVoiceId(voice.id);
+    setEmotion(voice.defaultEmotion);
+    setPresetId(null);
+  };
+
+  const handleSelectPreset = (preset: VoicePreset) => {
+    setVoiceId(preset.baseVoiceId);
+    setSpeed(preset.speed);
+    setPitch(preset.pitch);
+    setEmotion(preset.emotion);
+    setPresetId(preset.id);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      setError("Dê um nome ao preset antes de salvá-lo.");
+      return;
+    }
+    const preset: VoicePreset = {
+      id: crypto.randomUUID(),
+      name,
+      baseVoiceId: voiceId,
+      speed,
+      pitch,
+      emotion,
+      pronunciations: pronunciationDraft
+        .map((item) => ({ term: item.term.trim(), replacement: item.replacement.trim() }))
+        .filter((item) => item.term && item.replacement),
+      createdAt: Date.now(),
+    };
+    updatePresets([...presets, preset]);
+    setPresetId(preset.id);
+    setPresetName("");
+    setPronunciationDraft([]);
+    setError(null);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    updatePresets(presets.filter((preset) => preset.id !== id));
+    if (presetId === id) setPresetId(null);
+  };
+
+  const updatePronunciation = (index: number, patch: Partial<PronunciationOverride>) => {
+    setPronunciationDraft((current) =>
+      current.map((item, itemIndex) => (itemIndex === index ? { ...item, ...patch } : item)),
+    );
+  };
+
+  const handlePreview = (voice: VoiceCatalogEntry) => {
+    previewAudio.current?.pause();
+    if (previewingId === voice.id) {
+      setPreviewingId(null);
+      return;
+    }
+    const query = new URLSearchParams({
+      speed: speed.toFixed(2),
+      pitch: pitch.toFixed(0),
+      emotion,
+    });
+    const audio = new Audio(`${voice.previewUrl}?${query}`);
+    const stop = () => {
+      if (previewAudio.current !== audio) return;
+      setPreviewingId(null);
+      setPreviewLoading(false);
+    };
+    audio.onplaying = () => setPreviewLoading(false);
+    audio.onended = stop;
+    audio.onerror = () => {
+      if (previewAudio.current === audio) {
+        setError(`Não foi possível reproduzir a amostra de ${voice.label}.`);
+      }
+      stop();
+    };
+    previewAudio.current = audio;
+    setPreviewingId(voice.id);
+    setPreviewLoading(true);
+    audio.play().catch(stop);
+  };
+
+  const progress =
+    status === "preparing"
+      ? 5
+      : chunkProgress.total
+        ? (chunkProgress.completed / chunkProgress.total) * SYNTHESIS_WEIGHT +
+          ((100 - SYNTHESIS_WEIGHT) * encodingPercent) / 100
+        : 0;
+
+  const resetProgress = () => {
+    setChunkProgress({ completed: 0, total: 0 });
+    setEncodingPercent(0);
+    setEtaSeconds(null);
+  };
+
+  const stopStreaming = () => {
+    setStreamingUrl((current) => {
+      if (current) URL.revokeObjectURL(current);
+      return null;
+    });
+  };
+
+  const closeJob = () => {
+    activeJob.current?.events.close();
+    activeJob.current = null;
+  };
+
+  const handleJobEvent = (event: TtsJobEvent) => {
+    if (event.type === "chunk") {
+      setStatus(event.completed === event.total ? "finalizing" : "processing");
+      setChunkProgress({ completed: event.completed, total: event.total });
+      setEtaSeconds(event.etaSeconds);
+    } else if (event.type === "encoding") {
+      setEncodingPercent(event.percent);
+    }
+  };
+
+  const handleCancel = async () => {
+    const job = activeJob.current;
+    if (!job) return;
+    closeJob();
+    job.download.abort();
+    await fetch(`/api/tts/jobs/${job.id}`, { method: "DELETE" }).catch(() => undefined);
   };
 
   const handleSubmit = async () => {
@@ -95,10 +253,18 @@ export function TextToSpeechModule() {
       setError(`O texto deve ter no máximo ${MAX_CHARACTERS.toLocaleString("pt-BR")} caracteres.`);
       return;
     }
+    if (scriptMode === "diálogo" && speakers.length === 0) {
+      setError("Prefixe cada fala com o nome do locutor, por exemplo ANA: ou CARLOS:.");
+      return;
+    }
+
+    let jobError: Error | null = null;
 
     try {
       setError(null);
-      beginProgress();
+      resetProgress();
+      stopStreaming();
+      setStatus("preparing");
 
       const response = await fetch("/api/tts", {
         method: "POST",
@@ -111,47 +277,123 @@ export function TextToSpeechModule() {
           speed,
           pitch,
           emotion,
+          dialogue: scriptMode === "diálogo" ? { speakers: speakerMapping } : undefined,
+          pronunciations: activePreset?.pronunciations,
+          lexicon,
         }),
       });
 
+      const job = await response.json();
+
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(
-          typeof data.error === "string"
-            ? data.error
+          typeof job.error === "string"
+            ? job.error
             : "Não foi possível processar o áudio. Tente novamente.",
         );
       }
 
+      const events = new EventSource(`/api/tts/jobs/${job.jobId}/events`);
+      const download = new AbortController();
+      activeJob.current = { id: job.jobId, events, download };
+      setChunkProgress({ completed: 0, total: job.chunkCount });
+
+      const jobResult = new Promise<Extract<TtsJobEvent, { type: "done" }>>((resolve, reject) => {
+        let settled = false;
+        const fail = (failure: Error) => {
+          if (settled) return;
+          settled = true;
+          jobError = failure;
+          events.close();
+          reject(failure);
+          download.abort();
+        };
+        const handleMessage = (message: MessageEvent<string>) => {
+          const event = JSON.parse(message.data) as TtsJobEvent;
+          handleJobEvent(event);
+          if (event.type === "done") {
+            settled = true;
+            events.close();
+            resolve(event);
+          } else if (event.type === "error") {
+            fail(new Error(event.message));
+          } else if (event.type === "cancelled") {
+            fail(new Error("A geração foi cancelada pelo servidor. Tente novamente."));
+          }
+        };
+        (["chunk", "encoding", "done", "error", "cancelled"] as const).forEach((type) =>
+          events.addEventListener(type, handleMessage),
+        );
+        events.onerror = () => fail(new Error("A conexão com o servidor foi perdida durante a geração."));
+      });
+      jobResult.catch(() => undefined);
+
+      const audioRequest = fetch(`/api/tts/jobs/${job.jobId}/audio`, { signal: download.signal });
+      const audioResponse = await Promise.race([audioRequest, jobResult.then(() => audioRequest)]);
+
+      if (!audioResponse.ok || !audioResponse.body) {
+        throw new Error("O servidor não retornou o stream de áudio.");
+      }
+
       setStatus("processing");
-      const payload = await response.json();
+      const mimeType = audioResponse.headers.get("Content-Type") ?? "audio/mpeg";
+
+      const playback = createStreamingPlayback(
+        audioResponse.body,
+        mimeType,
+        () => streamingAudio.current?.currentTime ?? 0,
+      );
+      setStreamingUrl(playback.url);
+      let blob: Blob;
+      let result: Extract<TtsJobEvent, { type: "done" }>;
+      try {
+        [blob, result] = await Promise.all([playback.done, jobResult]);
+      } catch (err) {
+        stopStreaming();
+        throw err;
+      }
 
-      const blob = base64ToBlob(payload.audio, payload.mimeType);
       const url = URL.createObjectURL(blob);
       const durationSeconds = await getAudioDuration(blob);
 
       addAudio({
         id: crypto.randomUUID(),
-        name: payload.fileName,
+        name: job.fileName,
         blob,
         url,
-        durationEstimateSeconds: payload.durationEstimateSeconds,
+        durationEstimateSeconds: job.durationEstimateSeconds,
         durationSeconds,
         createdAt: Date.now(),
         settings: {
           emotion,
           pitch,
           speed,
-          voiceId,
+          voiceId: scriptMode === "diálogo" ? speakerMapping[speakers[0]] : voiceId,
+          speakers: scriptMode === "diálogo" ? speakerMapping : undefined,
+          presetName: activePreset?.name,
         },
+        cues: result.timings,
       });
 
-      finalizeProgress();
+      closeJob();
+      setChunkProgress({ completed: job.chunkCount, total: job.chunkCount });
+      setEncodingPercent(100);
+      setStatus("finalizing");
+      setTimeout(() => setStatus("idle"), 800);
     } catch (err) {
-      if (progressTimer.current) clearInterval(progressTimer.current);
+      const failure = jobError ?? err;
+      const cancelled =
+        activeJob.current === null && failure instanceof DOMException && failure.name === "AbortError";
+      closeJob();
       setStatus("idle");
-      setProgress(0);
-      setError(err instanceof Error ? err.message : "Erro inesperado. Tente novamente.");
+      resetProgress();
+      setError(
+        cancelled
+          ? "Geração cancelada."
+          : failure instanceof Error
+            ? failure.message
+            : "Erro inesperado. Tente novamente.",
+      );
     }
   };
 
@@ -171,6 +413,22 @@ export function TextToSpeechModule() {
 
       <div className="grid gap-10 lg:grid-cols-[minmax(0,1.2fr),minmax(0,1fr)]">
         <div className="flex flex-col gap-6">
+          <div className="flex gap-2">
+            {(["narração", "diálogo"] as ScriptMode[]).map((option) => {
+              const isActive = scriptMode === option;
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScriptMode(option)}
+                  className={`rounded-full px-4 py-2 text-xs uppercase tracking-[0.3em] transition ${isActive ? "bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 text-white" : "border border-white/10 bg-white/5 text-slate-200/80 hover:border-blue-400/40"}`}
+                >
+                  {option === "narração" ? "Narração" : "Diálogo"}
+                </button>
+              );
+            })}
+          </div>
+
           <label className="flex flex-col gap-2">
             <div className="flex items-center justify-between text-sm">
               <span className="font-medium text-slate-100">Script</span>
@@ -184,8 +442,44 @@ export function TextToSpeechModule() {
               value={text}
               onChange={(event) => setText(event.target.value)}
             />
+            <span className="text-xs text-slate-400/70">
+              Marcações: [pausa 1s], [voz:id], [emoção:id], [velocidade:1.2], [pitch:+2],
+              [ênfase]...[/ênfase] e [soletrar]API[/soletrar]. Use [/voz] para voltar à voz padrão.
+            </span>
           </label>
 
+          {scriptMode === "diálogo" && (
+            <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-6">
+              <h3 className="text-lg font-semibold text-white">Elenco do diálogo</h3>
+              <p className="text-sm text-slate-300/70">
+                Prefixe cada fala com o locutor (ex.: ANA: Olá!) e escolha a voz de cada personagem.
+              </p>
+              <div className="mt-4 grid gap-3 sm:grid-cols-2">
+                {speakers.length === 0 && (
+                  <span className="text-sm text-slate-400/70">Nenhum locutor detectado no roteiro.</span>
+                )}
+                {speakers.map((speaker) => (
+                  <label key={speaker} className="flex flex-col gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70">
+                    {speaker}
+                    <select
+                      value={speakerMapping[speaker]}
+                      onChange={(event) =>
+                        setSpeakerVoices((current) => ({ ...current, [speaker]: event.target.value }))
+                      }
+                      className="rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-sm normal-case tracking-normal text-slate-100 outline-none focus:border-blue-400/60"
+                    >
+                      {voiceLibrary.map((voice) => (
+                        <option key={voice.id} value={voice.id}>
+                          {voice.label} • {voice.tone}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-6">
             <div className="flex flex-wrap items-center justify-between gap-3">
               <div>
@@ -204,29 +498,150 @@ export function TextToSpeechModule() {
                   </h4>
                   <div className="grid gap-3 sm:grid-cols-2">
                     {groupedVoices[gender].map((voice) => {
-                      const isActive = voice.id === voiceId;
+                      const isActive = voice.id === voiceId && !activePreset;
                       return (
-                        <button
+                        <div
                           key={voice.id}
-                          type="button"
-                          onClick={() => setVoiceId(voice.id)}
-                          className={`group flex flex-col gap-2 rounded-2xl border bg-gradient-to-br p-4 text-left transition ${isActive ? "border-blue-400/60 from-blue-500/30 to-blue-400/10 shadow-lg shadow-blue-900/40" : "border-white/5 from-slate-800/80 to-slate-900/40 hover:border-blue-300/40 hover:shadow-lg hover:shadow-blue-900/20"}`}
+                          className={`group flex flex-col gap-2 rounded-2xl border bg-gradient-to-br p-4 transition ${isActive ? "border-blue-400/60 from-blue-500/30 to-blue-400/10 shadow-lg shadow-blue-900/40" : "border-white/5 from-slate-800/80 to-slate-900/40 hover:border-blue-300/40 hover:shadow-lg hover:shadow-blue-900/20"}`}
                         >
-                          <div className="flex items-center justify-between">
-                            <span className="text-base font-semibold text-white">
-                              {voice.label}
-                            </span>
-                            <span className="rounded-full border border-white/10 px-3 py-1 text-xs uppercase tracking-widest text-slate-200/70">
-                              {voice.tone}
-                            </span>
+                          <button
+                            type="button"
+                            onClick={() => handleSelectVoice(voice)}
+                            className="flex flex-col gap-2 text-left"
+                          >
+                            <div className="flex w-full items-center justify-between">
+                              <span className="text-base font-semibold text-white">
+                                {voice.label}
+                              </span>
+                              <span className="rounded-full border border-white/10 px-3 py-1 text-xs uppercase tracking-widest text-slate-200/70">
+                                {voice.tone}
+                              </span>
+                            </div>
+                            <p className="text-sm text-slate-300/80">{voice.description}</p>
+                          </button>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => handlePreview(voice)}
+                              disabled={!voice.available}
+                              className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/80 transition hover:border-blue-400/50 disabled:cursor-not-allowed disabled:opacity-40"
+                            >
+                              {previewingId !== voice.id
+                                ? "Ouvir com ajustes atuais"
+                                : previewLoading
+                                  ? "Gerando amostra..."
+                                  : "Parar"}
+                            </button>
+                            {voice.tags.map((tag) => (
+                              <span key={tag} className="text-[10px] uppercase tracking-[0.2em] text-slate-400/70">
+                                #{tag}
+                              </span>
+                            ))}
                           </div>
-                          <p className="text-sm text-slate-300/80">{voice.description}</p>
-                        </button>
+                        </div>
                       );
                     })}
                   </div>
                 </div>
               ))}
+
+              <div className="space-y-3">
+                <h4 className="text-xs uppercase tracking-[0.3em] text-slate-400/70">
+                  Presets personalizados
+                </h4>
+                {presets.length === 0 && (
+                  <span className="text-sm text-slate-400/70">
+                    Salve ajustes de voz, emoção e pronúncia para reutilizá-los como uma voz própria.
+                  </span>
+                )}
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {presets.map((preset) => {
+                    const isActive = preset.id === presetId;
+                    const baseVoice = catalog.find((voice) => voice.id === preset.baseVoiceId);
+                    return (
+                      <div
+                        key={preset.id}
+                        className={`flex flex-col gap-2 rounded-2xl border bg-gradient-to-br p-4 transition ${isActive ? "border-purple-400/60 from-purple-500/30 to-blue-400/10 shadow-lg shadow-purple-900/40" : "border-white/5 from-slate-800/80 to-slate-900/40 hover:border-purple-300/40"}`}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => handleSelectPreset(preset)}
+                          className="flex flex-col gap-1 text-left"
+                        >
+                          <span className="text-base font-semibold text-white">{preset.name}</span>
+                          <span className="text-xs text-slate-300/70">
+                            {baseVoice?.label ?? "Voz indisponível"} • {preset.speed.toFixed(2)}x • Pitch{" "}
+                            {preset.pitch} • {preset.emotion}
+                          </span>
+                          {preset.pronunciations.length > 0 && (
+                            <span className="text-xs text-slate-400/70">
+                              {preset.pronunciations.length} ajuste(s) de pronúncia
+                            </span>
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeletePreset(preset.id)}
+                          className="self-start rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-300/70 transition hover:border-red-400/40 hover:text-red-200"
+                        >
+                          Remover
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-slate-900/70 p-4">
+                  <div className="flex flex-wrap gap-2">
+                    <input
+                      value={presetName}
+                      onChange={(event) => setPresetName(event.target.value)}
+                      placeholder="Nome do preset (ex.: Narrador documental)"
+                      className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-sm text-slate-100 outline-none focus:border-blue-400/60"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleSavePreset}
+                      className="rounded-full border border-blue-400/40 px-4 py-2 text-xs uppercase tracking-[0.3em] text-blue-100 transition hover:bg-blue-500/20"
+                    >
+                      Salvar ajustes atuais
+                    </button>
+                  </div>
+                  {pronunciationDraft.map((item, index) => (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <input
+                        value={item.term}
+                        onChange={(event) => updatePronunciation(index, { term: event.target.value })}
+                        placeholder="Termo"
+                        className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-sm text-slate-100 outline-none focus:border-blue-400/60"
+                      />
+                      <span className="text-slate-400/70">→</span>
+                      <input
+                        value={item.replacement}
+                        onChange={(event) => updatePronunciation(index, { replacement: event.target.value })}
+                        placeholder="Como pronunciar"
+                        className="min-w-0 flex-1 rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 text-sm text-slate-100 outline-none focus:border-blue-400/60"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setPronunciationDraft((current) => current.filter((_, itemIndex) => itemIndex !== index))
+                        }
+                        className="text-xs text-slate-400/70 transition hover:text-red-200"
+                      >
+                        Remover
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setPronunciationDraft((current) => [...current, { term: "", replacement: "" }])}
+                    className="self-start text-xs uppercase tracking-[0.3em] text-blue-200/80 transition hover:text-blue-100"
+                  >
+                    + Ajuste de pronúncia
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -285,6 +700,8 @@ export function TextToSpeechModule() {
             </div>
           </div>
 
+          <PronunciationLexicon voiceId={voiceId} speed={speed} pitch={pitch} emotion={emotion} />
+
           <AnimatePresence>
             {error && (
               <motion.div
@@ -322,11 +739,26 @@ export function TextToSpeechModule() {
                   : status === "preparing"
                     ? "Preparando síntese..."
                     : status === "processing"
-                      ? "Processando e refinando áudio..."
+                      ? `Sintetizando trecho ${chunkProgress.completed} de ${chunkProgress.total}...`
                       : "Finalizando saída em 320kbps..."}
               </span>
               <span>{progress.toFixed(0)}%</span>
             </div>
+            {status !== "idle" && etaSeconds !== null && etaSeconds > 0 && (
+              <span className="text-xs text-blue-100/60">
+                Tempo restante estimado: {formatDuration(etaSeconds)}
+              </span>
+            )}
+            {streamingUrl && (
+              <audio
+                ref={streamingAudio}
+                autoPlay
+                controls
+                src={streamingUrl}
+                onEnded={stopStreaming}
+                className="w-full rounded-xl"
+              />
+            )}
             <button
               type="button"
               onClick={handleSubmit}
@@ -335,6 +767,15 @@ export function TextToSpeechModule() {
             >
               Gerar locução
             </button>
+            {status !== "idle" && (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="rounded-full border border-white/10 px-6 py-2 text-xs uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-red-400/40 hover:text-red-200"
+              >
+                Cancelar geração
+              </button>
+            )}
           </div>
         </div>
 
@@ -375,7 +816,9 @@ export function TextToSpeechModule() {
                           </span>
                           <span className="text-xs text-slate-300/70">
                             {formatDuration(audio.durationSeconds)} •{" "}
-                            {voiceLibrary.find((voice) => voice.id === audio.settings.voiceId)?.label ?? "Voz customizada"}
+                            {audio.settings.presetName ??
+                              voiceLibrary.find((voice) => voice.id === audio.settings.voiceId)?.label ??
+                              "Voz customizada"}
                           </span>
                         </div>
                         <button
@@ -391,6 +834,9 @@ export function TextToSpeechModule() {
                         <span>Vel {audio.settings.speed.toFixed(2)}x</span>
                         <span>Pitch {audio.settings.pitch}</span>
                         <span>Emoção {audio.settings.emotion}</span>
+                        {audio.settings.speakers && (
+                          <span>{Object.keys(audio.settings.speakers).length} locutores</span>
+                        )}
                         <span>
                           Exportação: 320kbps • {new Date(audio.createdAt).toLocaleTimeString("pt-BR")}
                         </span>
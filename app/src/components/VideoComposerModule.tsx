@@ -21,33 +21,87 @@ import { AnimatePresence, motion } from "framer-motion";
 import NextImage from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
+import { MotionEditor } from "@/components/MotionEditor";
+import { NarrationEditor } from "@/components/NarrationEditor";
 import {
+  AudioTrackClip,
+  AudioTrackKind,
   ComposerMode,
   MediaAsset,
+  OverlayClip,
+  OverlayKind,
   TimelineClip,
-  TransitionType,
   useAppStore,
 } from "@/state/useAppStore";
 import { voiceLibrary } from "@/lib/voices";
-
-const TRANSITION_DURATION = 0.6;
-const CANVAS_WIDTH = 1280;
-const CANVAS_HEIGHT = 720;
+import { ClipFit, DEFAULT_CLIP_FIT, FitMode, coverPlacement, fitPlacement } from "@/lib/render/fit";
+import { OVERLAY_FADE_SECONDS, RenderManifest } from "@/lib/render/manifest";
+import {
+  ClipMotion,
+  FramingRect,
+  ease,
+  interpolateFraming,
+  motionEasingLabels,
+  motionEasings,
+  randomMotion,
+} from "@/lib/render/motion";
+import {
+  ClipTransition,
+  DEFAULT_TRANSITION_DURATION,
+  TRANSITION_BACKGROUND,
+  getTransition,
+  resolveTransitionParams,
+  transitionList,
+  transitionSeconds,
+} from "@/lib/render/transitions";
+import { exportPresets, getExportPreset, resolveRecorderMimeType } from "@/lib/render/presets";
+import { getAudioDuration } from "@/utils/audio";
+import {
+  MIX_SAMPLE_RATE,
+  decodeTrackBuffers,
+  renderMixdown,
+  scheduleTracks,
+  stopSources,
+} from "@/utils/audioMix";
+import {
+  CaptionCue,
+  CaptionPosition,
+  buildCaptionCues,
+  drawCaption,
+  findCaptionAt,
+  formatSrt,
+  formatVtt,
+} from "@/utils/captions";
+import { DuckingPlan, LevelAnalysis, analyzeLevels, detectVoiceRegions } from "@/utils/ducking";
+import { mapSourceTime } from "@/utils/narrationEdits";
+import { exportOffline, supportsOfflineExport } from "@/utils/offlineExport";
+import { useRenderedNarration } from "@/utils/useRenderedNarration";
+
+const BLUR_FILL_RATIO = 0.02;
+
+const optionChipClass = (isActive: boolean) =>
+  `rounded-full px-3 py-2 text-[10px] uppercase tracking-[0.35em] transition ${isActive ? "bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 text-white shadow-[0_0_24px_rgba(93,118,255,0.45)]" : "border border-white/10 bg-slate-900/80 text-slate-200/70 hover:border-blue-400/40"}`;
 
 type SortableClipCardProps = {
   clip: TimelineClip;
   media: MediaAsset | undefined;
+  frameAspect: number;
   onRemove: () => void;
   onDurationChange: (value: number) => void;
-  onTransitionChange: (value: TransitionType) => void;
+  onTransitionChange: (patch: Partial<ClipTransition>) => void;
+  onMotionChange: (value: ClipMotion | undefined) => void;
+  onFitChange: (value: ClipFit) => void;
 };
 
 function SortableClipCard({
   clip,
   media,
+  frameAspect,
   onRemove,
   onDurationChange,
   onTransitionChange,
+  onMotionChange,
+  onFitChange,
 }: SortableClipCardProps) {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({
     id: clip.id,
@@ -60,6 +114,7 @@ function SortableClipCard({
   if (!media) return null;
 
   const isImage = media.kind === "image";
+  const transitionParams = resolveTransitionParams(clip);
 
   return (
     <div ref={setNodeRef} style={style}>
@@ -120,28 +175,444 @@ function SortableClipCard({
             Transição de entrada
           </label>
           <div className="flex flex-wrap gap-2">
-            {(["nenhuma", "fade-in", "crossfade", "cine-sweep", "white-flash"] as TransitionType[]).map(
-              (option) => {
-                const isActive = clip.transition === option;
-                return (
+            {transitionList.map((definition) => (
+              <button
+                key={definition.id}
+                type="button"
+                onClick={() => onTransitionChange({ transition: definition.id, transitionParams: undefined })}
+                className={optionChipClass(clip.transition === definition.id)}
+              >
+                {definition.label}
+              </button>
+            ))}
+          </div>
+          {clip.transition !== "nenhuma" && (
+            <>
+              <RangeControl
+                label="Duração da transição"
+                value={transitionSeconds(clip)}
+                min={0.1}
+                max={Math.max(0.1, Math.min(3, clip.duration))}
+                step={0.1}
+                format={formatSeconds}
+                onChange={(transitionDuration) => onTransitionChange({ transitionDuration })}
+              />
+              <div className="flex flex-wrap gap-2">
+                {motionEasings.map((easing) => (
                   <button
-                    key={option}
+                    key={easing}
                     type="button"
-                    onClick={() => onTransitionChange(option)}
-                    className={`rounded-full px-3 py-2 text-[10px] uppercase tracking-[0.35em] transition ${isActive ? "bg-gradient-to-r from-blue-500 via-indigo-500 to-purple-500 text-white shadow-[0_0_24px_rgba(93,118,255,0.45)]" : "border border-white/10 bg-slate-900/80 text-slate-200/70 hover:border-blue-400/40"}`}
+                    onClick={() => onTransitionChange({ transitionEasing: easing })}
+                    className={optionChipClass((clip.transitionEasing ?? "linear") === easing)}
                   >
-                    {option}
+                    {motionEasingLabels[easing]}
                   </button>
+                ))}
+              </div>
+              {getTransition(clip.transition).params.map((param) => {
+                const value = transitionParams[param.key];
+                const setParam = (next: string | number) =>
+                  onTransitionChange({ transitionParams: { ...transitionParams, [param.key]: next } });
+                if (param.kind === "select") {
+                  return (
+                    <div key={param.key} className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs uppercase tracking-[0.3em] text-slate-300/70">{param.label}</span>
+                      {param.options.map((option) => (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => setParam(option.value)}
+                          className={optionChipClass(value === option.value)}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  );
+                }
+                if (param.kind === "color") {
+                  return (
+                    <label
+                      key={param.key}
+                      className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-300/70"
+                    >
+                      <span>{param.label}</span>
+                      <input
+                        type="color"
+                        value={String(value)}
+                        onChange={(event) => setParam(event.target.value)}
+                        className="h-8 w-12 cursor-pointer rounded border border-white/10 bg-transparent"
+                      />
+                    </label>
+                  );
+                }
+                return (
+                  <RangeControl
+                    key={param.key}
+                    label={param.label}
+                    value={Number(value)}
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                    format={(next) => next.toFixed(3)}
+                    onChange={setParam}
+                  />
                 );
-              },
-            )}
-          </div>
+              })}
+            </>
+          )}
         </div>
+
+        <FitControls fit={clip.fit ?? DEFAULT_CLIP_FIT} onChange={onFitChange} />
+
+        {isImage && (
+          <MotionEditor
+            motion={clip.motion}
+            imageUrl={media.url}
+            frameAspect={frameAspect}
+            onChange={onMotionChange}
+          />
+        )}
       </motion.div>
     </div>
   );
 }
 
+type RangeControlProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+};
+
+function RangeControl({ label, value, min, max, step, format, onChange }: RangeControlProps) {
+  return (
+    <label className="flex flex-col gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70">
+      <span className="flex items-center justify-between">
+        <span>{label}</span>
+        <span>{format ? format(value) : value.toFixed(1)}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        className="accent-blue-400"
+      />
+    </label>
+  );
+}
+
+const formatSeconds = (value: number) => `${value.toFixed(1)}s`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const formatDegrees = (value: number) => `${Math.round(value)}°`;
+
+const fitLabels: Record<FitMode, string> = {
+  contain: "Conter",
+  cover: "Preencher",
+  "blur-fill": "Fundo desfocado",
+  manual: "Manual",
+};
+
+type FitControlsProps = {
+  fit: ClipFit;
+  onChange: (fit: ClipFit) => void;
+};
+
+function FitControls({ fit, onChange }: FitControlsProps) {
+  const { crop } = fit;
+  const insets = {
+    left: crop.x,
+    right: 1 - crop.x - crop.width,
+    top: crop.y,
+    bottom: 1 - crop.y - crop.height,
+  };
+  const setInset = (side: keyof typeof insets, value: number) => {
+    const next = { ...insets, [side]: value };
+    onChange({
+      ...fit,
+      crop: {
+        x: next.left,
+        y: next.top,
+        width: 1 - next.left - next.right,
+        height: 1 - next.top - next.bottom,
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+      <label className="text-xs uppercase tracking-[0.3em] text-slate-300/70">Enquadramento</label>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(fitLabels) as FitMode[]).map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onChange({ ...fit, mode })}
+            className={optionChipClass(fit.mode === mode)}
+          >
+            {fitLabels[mode]}
+          </button>
+        ))}
+      </div>
+      {fit.mode === "cover" && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <RangeControl
+            label="Foco horizontal"
+            value={fit.focalX}
+            min={0}
+            max={1}
+            step={0.01}
+            format={formatPercent}
+            onChange={(focalX) => onChange({ ...fit, focalX })}
+          />
+          <RangeControl
+            label="Foco vertical"
+            value={fit.focalY}
+            min={0}
+            max={1}
+            step={0.01}
+            format={formatPercent}
+            onChange={(focalY) => onChange({ ...fit, focalY })}
+          />
+        </div>
+      )}
+      {fit.mode === "manual" && (
+        <div className="grid gap-3 md:grid-cols-2">
+          {(
+            [
+              ["left", "Corte esquerdo"],
+              ["right", "Corte direito"],
+              ["top", "Corte superior"],
+              ["bottom", "Corte inferior"],
+            ] as const
+          ).map(([side, label]) => (
+            <RangeControl
+              key={side}
+              label={label}
+              value={insets[side]}
+              min={0}
+              max={0.45}
+              step={0.01}
+              format={formatPercent}
+              onChange={(value) => setInset(side, value)}
+            />
+          ))}
+          <RangeControl
+            label="Escala"
+            value={fit.scale}
+            min={0.25}
+            max={3}
+            step={0.01}
+            format={formatPercent}
+            onChange={(scale) => onChange({ ...fit, scale })}
+          />
+          <RangeControl
+            label="Rotação"
+            value={fit.rotation}
+            min={-180}
+            max={180}
+            step={1}
+            format={formatDegrees}
+            onChange={(rotation) => onChange({ ...fit, rotation })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+type AudioTrackCardProps = {
+  track: AudioTrackClip;
+  maxTime: number;
+  onChange: (patch: Partial<AudioTrackClip>, field?: string) => void;
+  onRemove: () => void;
+};
+
+function AudioTrackCard({ track, maxTime, onChange, onRemove }: AudioTrackCardProps) {
+  const maxDuration = track.loop ? Math.max(maxTime, track.sourceDuration) : track.sourceDuration;
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-slate-900/70 p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-semibold text-white">{track.name}</h4>
+          <p className="text-xs text-slate-300/70">
+            {track.kind === "música" ? "Trilha musical" : "Efeito sonoro"} • {track.start.toFixed(1)}s →{" "}
+            {(track.start + track.duration).toFixed(1)}s
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-red-400/40 hover:text-red-200"
+        >
+          Remover
+        </button>
+      </div>
+      <div className="grid gap-4 rounded-xl border border-white/10 bg-white/5 p-4 md:grid-cols-3">
+        <RangeControl
+          label="Início"
+          value={track.start}
+          min={0}
+          max={Math.max(1, maxTime)}
+          step={0.1}
+          format={formatSeconds}
+          onChange={(start) => onChange({ start }, "start")}
+        />
+        <RangeControl
+          label="Duração"
+          value={Math.min(track.duration, maxDuration)}
+          min={Math.min(0.5, maxDuration)}
+          max={maxDuration}
+          step={0.1}
+          format={formatSeconds}
+          onChange={(duration) => onChange({ duration }, "duration")}
+        />
+        <RangeControl
+          label="Volume"
+          value={track.volume}
+          min={0}
+          max={1.5}
+          step={0.05}
+          format={formatPercent}
+          onChange={(volume) => onChange({ volume }, "volume")}
+        />
+      </div>
+      <label className="flex items-center gap-2 text-[10px] uppercase tracking-[0.3em] text-slate-300/70">
+        <input
+          type="checkbox"
+          checked={track.loop}
+          onChange={(event) =>
+            onChange({
+              loop: event.target.checked,
+              duration: event.target.checked ? track.duration : Math.min(track.duration, track.sourceDuration),
+            })
+          }
+          className="accent-blue-400"
+        />
+        Repetir até o fim da duração
+      </label>
+    </div>
+  );
+}
+
+const overlayLabels: Record<OverlayKind, string> = {
+  logo: "Logo",
+  "lower-third": "Lower-third",
+  pip: "Picture-in-picture",
+};
+
+type OverlayCardProps = {
+  overlay: OverlayClip;
+  media: MediaAsset | undefined;
+  maxTime: number;
+  onChange: (patch: Partial<OverlayClip>, field?: string) => void;
+  onRemove: () => void;
+};
+
+function OverlayCard({ overlay, media, maxTime, onChange, onRemove }: OverlayCardProps) {
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-slate-900/70 p-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-semibold text-white">
+            {overlayLabels[overlay.kind]}
+            {media ? ` • ${media.name}` : ""}
+          </h4>
+          <p className="text-xs text-slate-300/70">
+            {overlay.start.toFixed(1)}s → {(overlay.start + overlay.duration).toFixed(1)}s
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-red-400/40 hover:text-red-200"
+        >
+          Remover
+        </button>
+      </div>
+      {overlay.kind === "lower-third" && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <input
+            value={overlay.title ?? ""}
+            onChange={(event) => onChange({ title: event.target.value }, "title")}
+            placeholder="Título"
+            className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-white outline-none focus:border-blue-400/60"
+          />
+          <input
+            value={overlay.subtitle ?? ""}
+            onChange={(event) => onChange({ subtitle: event.target.value }, "subtitle")}
+            placeholder="Subtítulo"
+            className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-white outline-none focus:border-blue-400/60"
+          />
+        </div>
+      )}
+      <div className="grid gap-4 rounded-xl border border-white/10 bg-white/5 p-4 md:grid-cols-3">
+        <RangeControl
+          label="Início"
+          value={overlay.start}
+          min={0}
+          max={Math.max(1, maxTime)}
+          step={0.1}
+          format={formatSeconds}
+          onChange={(start) => onChange({ start }, "start")}
+        />
+        <RangeControl
+          label="Duração"
+          value={overlay.duration}
+          min={0.5}
+          max={Math.max(1, maxTime)}
+          step={0.1}
+          format={formatSeconds}
+          onChange={(duration) => onChange({ duration }, "duration")}
+        />
+        <RangeControl
+          label="Opacidade"
+          value={overlay.opacity}
+          min={0}
+          max={1}
+          step={0.05}
+          format={formatPercent}
+          onChange={(opacity) => onChange({ opacity }, "opacity")}
+        />
+        <RangeControl
+          label="Posição X"
+          value={overlay.x}
+          min={0}
+          max={1}
+          step={0.01}
+          format={formatPercent}
+          onChange={(x) => onChange({ x }, "x")}
+        />
+        <RangeControl
+          label="Posição Y"
+          value={overlay.y}
+          min={0}
+          max={1}
+          step={0.01}
+          format={formatPercent}
+          onChange={(y) => onChange({ y }, "y")}
+        />
+        <RangeControl
+          label="Largura"
+          value={overlay.scale}
+          min={0.05}
+          max={1}
+          step={0.01}
+          format={formatPercent}
+          onChange={(scale) => onChange({ scale }, "scale")}
+        />
+      </div>
+    </div>
+  );
+}
+
 async function getMediaMetadata(file: File): Promise<Partial<MediaAsset>> {
   const url = URL.createObjectURL(file);
   if (file.type.startsWith("image")) {
@@ -175,11 +646,32 @@ type RenderableMedia = {
   asset: MediaAsset;
 };
 
+function videoSeekTime(asset: MediaAsset, video: HTMLVideoElement, timestamp: number) {
+  return Math.max(0, Math.min(timestamp, (asset.duration ?? video.duration) - 0.05));
+}
+
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= 2) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    video.addEventListener("seeked", () => resolve(), { once: true });
+    video.currentTime = time;
+  });
+}
+
+function clipFraming(clip: TimelineClip, asset: MediaAsset, localTime: number): FramingRect | undefined {
+  if (!clip.motion || asset.kind !== "image") return undefined;
+  return interpolateFraming(clip.motion, localTime / clip.duration);
+}
+
 function drawMedia(
   ctx: CanvasRenderingContext2D,
   media: RenderableMedia,
   timestamp: number,
   alpha: number,
+  fit: ClipFit = DEFAULT_CLIP_FIT,
+  framing?: FramingRect,
 ) {
   ctx.save();
   ctx.globalAlpha = alpha;
@@ -193,7 +685,7 @@ function drawMedia(
       return;
     }
     if (!Number.isNaN(timestamp) && Number.isFinite(timestamp)) {
-      const safeTime = Math.max(0, Math.min(timestamp, (asset.duration ?? video.duration) - 0.05));
+      const safeTime = videoSeekTime(asset, video, timestamp);
       if (Math.abs(video.currentTime - safeTime) > 0.03) {
         video.currentTime = safeTime;
       }
@@ -209,47 +701,172 @@ function drawMedia(
   const width = asset.kind === "image" ? (element as HTMLImageElement).naturalWidth : (element as HTMLVideoElement).videoWidth;
   const height = asset.kind === "image" ? (element as HTMLImageElement).naturalHeight : (element as HTMLVideoElement).videoHeight;
 
-  const aspect = width / height || 16 / 9;
-  const targetAspect = CANVAS_WIDTH / CANVAS_HEIGHT;
-
-  let drawWidth = CANVAS_WIDTH;
-  let drawHeight = CANVAS_HEIGHT;
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  if (!width || !height) {
+    ctx.restore();
+    return;
+  }
 
-  if (aspect > targetAspect) {
-    drawHeight = CANVAS_WIDTH / aspect;
-  } else {
-    drawWidth = CANVAS_HEIGHT * aspect;
+  if (framing) {
+    ctx.scale(1 / framing.width, 1 / framing.height);
+    ctx.translate(-framing.x * canvasWidth, -framing.y * canvasHeight);
   }
 
-  const offsetX = (CANVAS_WIDTH - drawWidth) / 2;
-  const offsetY = (CANVAS_HEIGHT - drawHeight) / 2;
+  if (fit.mode === "blur-fill") {
+    const background = coverPlacement(width, height, canvasWidth, canvasHeight);
+    ctx.filter = `blur(${Math.round(canvasWidth * BLUR_FILL_RATIO)}px)`;
+    ctx.drawImage(element, background.sx, background.sy, background.sw, background.sh, 0, 0, canvasWidth, canvasHeight);
+    ctx.filter = "none";
+    ctx.fillStyle = "rgba(5,8,20,0.35)";
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  }
 
-  ctx.drawImage(element, offsetX, offsetY, drawWidth, drawHeight);
+  const { sx, sy, sw, sh, dx, dy, dw, dh } = fitPlacement(fit, width, height, canvasWidth, canvasHeight);
+  if (fit.mode === "manual" && fit.rotation) {
+    ctx.translate(canvasWidth / 2, canvasHeight / 2);
+    ctx.rotate((fit.rotation * Math.PI) / 180);
+    ctx.translate(-canvasWidth / 2, -canvasHeight / 2);
+  }
+  ctx.drawImage(element, sx, sy, sw, sh, dx, dy, dw, dh);
   ctx.restore();
 }
 
-function applyTransitionOverlay(
+function drawClipLayer(
   ctx: CanvasRenderingContext2D,
-  type: TransitionType,
-  progress: number,
+  clip: TimelineClip,
+  media: RenderableMedia,
+  localTime: number,
+  alpha: number,
 ) {
-  if (type === "white-flash") {
-    const opacity = Math.max(0, 1 - progress * 2);
-    ctx.save();
-    ctx.fillStyle = `rgba(255,255,255,${opacity.toFixed(2)})`;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    ctx.restore();
-  } else if (type === "cine-sweep") {
-    const sweep = progress;
-    ctx.save();
-    ctx.fillStyle = "rgba(0,0,0,0.7)";
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    ctx.globalCompositeOperation = "destination-out";
-    ctx.fillStyle = "#000";
-    const width = CANVAS_WIDTH * sweep;
-    ctx.fillRect(-CANVAS_WIDTH + width, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    ctx.restore();
+  drawMedia(ctx, media, localTime, alpha, clip.fit, clipFraming(clip, media.asset, localTime));
+}
+
+function blendsPreviousClip(clip: TimelineClip) {
+  return getTransition(clip.transition).source(resolveTransitionParams(clip)).kind === "previous";
+}
+
+function overlayAlpha(overlay: OverlayClip, localTime: number) {
+  const fade = Math.min(OVERLAY_FADE_SECONDS, overlay.duration / 2);
+  if (fade <= 0) return overlay.opacity;
+  const fadeIn = Math.min(1, localTime / fade);
+  const fadeOut = Math.min(1, (overlay.duration - localTime) / fade);
+  return overlay.opacity * Math.max(0, Math.min(fadeIn, fadeOut));
+}
+
+function drawLowerThird(ctx: CanvasRenderingContext2D, overlay: OverlayClip) {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const titleSize = Math.round(canvasHeight * 0.045);
+  const subtitleSize = Math.round(canvasHeight * 0.028);
+  const padding = titleSize * 0.6;
+  const boxWidth = canvasWidth * overlay.scale;
+  const boxHeight = padding * 2 + titleSize + (overlay.subtitle ? subtitleSize * 1.5 : 0);
+  const left = canvasWidth * overlay.x - boxWidth / 2;
+  const top = canvasHeight * overlay.y - boxHeight / 2;
+
+  ctx.fillStyle = "rgba(5,8,20,0.78)";
+  ctx.fillRect(left, top, boxWidth, boxHeight);
+  ctx.fillStyle = "#8b5cf6";
+  ctx.fillRect(left, top, Math.max(4, titleSize * 0.18), boxHeight);
+
+  ctx.textBaseline = "top";
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `600 ${titleSize}px sans-serif`;
+  ctx.fillText(overlay.title ?? "", left + padding, top + padding, boxWidth - padding * 2);
+  if (overlay.subtitle) {
+    ctx.fillStyle = "rgba(226,232,240,0.85)";
+    ctx.font = `400 ${subtitleSize}px sans-serif`;
+    ctx.fillText(overlay.subtitle, left + padding, top + padding + titleSize * 1.2, boxWidth - padding * 2);
+  }
+}
+
+function drawOverlayMedia(
+  ctx: CanvasRenderingContext2D,
+  overlay: OverlayClip,
+  media: RenderableMedia,
+  localTime: number,
+) {
+  const { element, asset } = media;
+  let sourceWidth: number;
+  let sourceHeight: number;
+
+  if (element instanceof HTMLVideoElement) {
+    if (element.readyState < 2) return;
+    const safeTime = videoSeekTime(asset, element, localTime);
+    if (Math.abs(element.currentTime - safeTime) > 0.03) {
+      element.currentTime = safeTime;
+    }
+    sourceWidth = element.videoWidth;
+    sourceHeight = element.videoHeight;
+  } else {
+    if (!element.complete) return;
+    sourceWidth = element.naturalWidth;
+    sourceHeight = element.naturalHeight;
   }
+
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const drawWidth = canvasWidth * overlay.scale;
+  const drawHeight = drawWidth * (sourceHeight / sourceWidth || 9 / 16);
+  ctx.drawImage(
+    element,
+    canvasWidth * overlay.x - drawWidth / 2,
+    canvasHeight * overlay.y - drawHeight / 2,
+    drawWidth,
+    drawHeight,
+  );
+}
+
+function drawOverlay(
+  ctx: CanvasRenderingContext2D,
+  overlay: OverlayClip,
+  media: RenderableMedia | null,
+  time: number,
+) {
+  const localTime = time - overlay.start;
+  if (localTime < 0 || localTime >= overlay.duration) return;
+  ctx.save();
+  ctx.globalAlpha = overlayAlpha(overlay, localTime);
+  if (overlay.kind === "lower-third") {
+    drawLowerThird(ctx, overlay);
+  } else if (media) {
+    drawOverlayMedia(ctx, overlay, media, localTime);
+  }
+  ctx.restore();
+}
+
+function renderLowerThirdImage(overlay: OverlayClip, width: number, height: number): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas indisponível para gerar o lower-third."));
+  drawLowerThird(ctx, overlay);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Falha ao gerar a imagem do lower-third."))),
+      "image/png",
+    );
+  });
+}
+
+async function renderErrorMessage(response: Response) {
+  const data = await response
+    .text()
+    .then((body) => JSON.parse(body))
+    .catch(() => null);
+  if (typeof data?.error === "string") return data.error;
+  if (response.status === 413) return "Os arquivos enviados excedem o limite do servidor.";
+  return `Não foi possível renderizar o vídeo (HTTP ${response.status}).`;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 2000);
 }
 
 type PlayerState = {
@@ -258,6 +875,17 @@ type PlayerState = {
   currentTime: number;
 };
 
+type OfflineExportState = {
+  isExporting: boolean;
+  progress: number;
+  error: string | null;
+};
+
+type ServerRenderState = {
+  isRendering: boolean;
+  error: string | null;
+};
+
 export function VideoComposerModule() {
   const {
     audios,
@@ -268,8 +896,23 @@ export function VideoComposerModule() {
     removeMedia,
     timeline,
     setTimeline,
+    audioTracks,
+    addAudioTrack,
+    updateAudioTrack,
+    removeAudioTrack,
+    overlays,
+    addOverlay,
+    updateOverlay,
+    removeOverlay,
+    ducking,
+    setDucking,
+    setCaptions,
+    captionSettings,
+    setCaptionSettings,
     mode,
     setMode,
+    exportPresetId,
+    setExportPreset,
   } = useAppStore((state) => ({
     audios: state.audios,
     activeAudioId: state.activeAudioId,
@@ -279,38 +922,75 @@ export function VideoComposerModule() {
     removeMedia: state.removeMedia,
     timeline: state.timeline,
     setTimeline: state.setTimeline,
+    audioTracks: state.audioTracks,
+    addAudioTrack: state.addAudioTrack,
+    updateAudioTrack: state.updateAudioTrack,
+    removeAudioTrack: state.removeAudioTrack,
+    overlays: state.overlays,
+    addOverlay: state.addOverlay,
+    updateOverlay: state.updateOverlay,
+    removeOverlay: state.removeOverlay,
+    ducking: state.ducking,
+    setDucking: state.setDucking,
+    setCaptions: state.setCaptions,
+    captionSettings: state.captionSettings,
+    setCaptionSettings: state.setCaptionSettings,
     mode: state.mode,
     setMode: state.setMode,
+    exportPresetId: state.exportPresetId,
+    setExportPreset: state.setExportPreset,
   }));
+  const exportPreset = getExportPreset(exportPresetId);
 
   const activeAudio = audios.find((audio) => audio.id === activeAudioId) ?? audios[0];
   const normalizedTimeline = useMemo(() => normalizeTimeline(timeline), [timeline]);
   const compositionDuration = normalizedTimeline.reduce((total, clip) => total + clip.duration, 0);
-  const durationMismatch =
-    activeAudio && Math.abs((activeAudio.durationSeconds || activeAudio.durationEstimateSeconds) - compositionDuration) > 0.8;
+  const narration = useRenderedNarration(activeAudio);
+  const durationMismatch = narration && Math.abs(narration.duration - compositionDuration) > 0.8;
+  const captions = useMemo(() => activeAudio?.captions ?? [], [activeAudio?.captions]);
+  const narrationDuration = narration ? narration.duration : compositionDuration;
 
   const [playerState, setPlayerState] = useState<PlayerState>({
     isPlaying: false,
     isExporting: false,
     currentTime: 0,
   });
+  const [offlineExport, setOfflineExport] = useState<OfflineExportState>({
+    isExporting: false,
+    progress: 0,
+    error: null,
+  });
+  const offlineAbort = useRef<AbortController | null>(null);
+  const [serverRender, setServerRender] = useState<ServerRenderState>({
+    isRendering: false,
+    error: null,
+  });
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const animationRef = useRef<number | null>(null);
   const mediaCache = useRef<Map<string, HTMLImageElement | HTMLVideoElement>>(new Map());
+  const mixContext = useRef<AudioContext | null>(null);
+  const trackBuffers = useRef<Map<string, AudioBuffer>>(new Map());
+  const trackSources = useRef<AudioBufferSourceNode[]>([]);
+  const voiceLevels = useRef<Map<string, LevelAnalysis>>(new Map());
+  const [overlayMediaId, setOverlayMediaId] = useState("");
 
   useEffect(() => {
     const ctx = canvasRef.current?.getContext("2d");
     if (ctx) {
       ctx.fillStyle = "#04050B";
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
     }
   }, []);
 
   useEffect(() => {
+    const liveIds = new Set(mediaLibrary.map((asset) => asset.id));
+    mediaCache.current.forEach((_, id) => {
+      if (!liveIds.has(id)) mediaCache.current.delete(id);
+    });
     mediaLibrary.forEach((asset) => {
-      if (mediaCache.current.has(asset.id)) return;
+      if (mediaCache.current.get(asset.id)?.src === asset.url) return;
       if (asset.kind === "image") {
         const image = new Image();
         image.src = asset.url;
@@ -330,10 +1010,68 @@ export function VideoComposerModule() {
     });
   }, [mediaLibrary]);
 
+  useEffect(() => {
+    const liveIds = new Set(audioTracks.map((track) => track.id));
+    trackBuffers.current.forEach((_, id) => {
+      if (!liveIds.has(id)) trackBuffers.current.delete(id);
+    });
+  }, [audioTracks]);
+
+  useEffect(
+    () => () => {
+      stopSources(trackSources.current);
+      mixContext.current?.close();
+    },
+    [],
+  );
+
+  const resolveDuckingPlan = useCallback(
+    async (context: BaseAudioContext): Promise<DuckingPlan | undefined> => {
+      if (!ducking.enabled || !narration) return undefined;
+      if (!audioTracks.some((track) => track.kind === "música")) return undefined;
+      let analysis = voiceLevels.current.get(narration.url);
+      if (!analysis) {
+        const buffer = await context.decodeAudioData(await narration.blob.arrayBuffer());
+        analysis = analyzeLevels(buffer);
+        voiceLevels.current.set(narration.url, analysis);
+      }
+      return { regions: detectVoiceRegions(analysis, ducking), settings: ducking };
+    },
+    [narration, audioTracks, ducking],
+  );
+
+  const stopTrackPlayback = useCallback(() => {
+    stopSources(trackSources.current);
+    trackSources.current = [];
+  }, []);
+
+  const startTrackPlayback = useCallback(
+    async (offset: number) => {
+      stopTrackPlayback();
+      if (!audioTracks.length) return;
+      mixContext.current ??= new AudioContext();
+      const context = mixContext.current;
+      await context.resume();
+      await decodeTrackBuffers(context, audioTracks, trackBuffers.current);
+      const duckingPlan = await resolveDuckingPlan(context);
+      trackSources.current = scheduleTracks(
+        context,
+        context.destination,
+        audioTracks,
+        trackBuffers.current,
+        context.currentTime,
+        offset,
+        duckingPlan,
+      );
+    },
+    [audioTracks, resolveDuckingPlan, stopTrackPlayback],
+  );
+
   useEffect(() => {
     const audioElement = audioRef.current;
     if (!audioElement) return undefined;
     const handleEnded = () => {
+      stopTrackPlayback();
       setPlayerState((state) => ({ ...state, isPlaying: false, currentTime: 0 }));
       audioElement.currentTime = 0;
     };
@@ -341,61 +1079,92 @@ export function VideoComposerModule() {
     return () => {
       audioElement.removeEventListener("ended", handleEnded);
     };
-  }, [activeAudio?.id]);
+  }, [activeAudio?.id, stopTrackPlayback]);
 
-  const renderFrame = useCallback(
+  const drawBaseTrack = useCallback(
     (ctx: CanvasRenderingContext2D, time: number) => {
-      ctx.fillStyle = "#050814";
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
       if (!normalizedTimeline.length) return;
 
-    const currentIndex = normalizedTimeline.findIndex(
-      (clip) => time >= clip.start && time < clip.start + clip.duration,
-    );
-    const safeIndex = currentIndex === -1 ? normalizedTimeline.length - 1 : currentIndex;
-    const currentClip = normalizedTimeline[safeIndex];
-    const previousClip = normalizedTimeline[safeIndex - 1];
-
-    if (!currentClip) return;
-
-    const localTime = time - currentClip.start;
-    const mediaElement = mediaCache.current.get(currentClip.mediaId);
-    const currentMedia = mediaElement
-      ? { element: mediaElement, asset: mediaLibrary.find((asset) => asset.id === currentClip.mediaId)! }
-      : null;
-
-    if (!currentMedia) return;
-
-    if (currentClip.transition === "crossfade" && previousClip) {
-      const progress = Math.min(1, Math.max(0, localTime / TRANSITION_DURATION));
-      const previousMediaElement = mediaCache.current.get(previousClip.mediaId);
-      if (previousMediaElement) {
-        drawMedia(
-          ctx,
-          { element: previousMediaElement, asset: mediaLibrary.find((asset) => asset.id === previousClip.mediaId)! },
-          previousClip.duration - (TRANSITION_DURATION - localTime),
-          1 - progress,
-        );
+      const currentIndex = normalizedTimeline.findIndex(
+        (clip) => time >= clip.start && time < clip.start + clip.duration,
+      );
+      const safeIndex = currentIndex === -1 ? normalizedTimeline.length - 1 : currentIndex;
+      const currentClip = normalizedTimeline[safeIndex];
+      const previousClip = normalizedTimeline[safeIndex - 1];
+
+      if (!currentClip) return;
+
+      const localTime = time - currentClip.start;
+      const mediaElement = mediaCache.current.get(currentClip.mediaId);
+      const currentMedia = mediaElement
+        ? { element: mediaElement, asset: mediaLibrary.find((asset) => asset.id === currentClip.mediaId)! }
+        : null;
+
+      if (!currentMedia) return;
+
+      const drawTo = (alpha = 1) => drawClipLayer(ctx, currentClip, currentMedia, localTime, alpha);
+      const duration = transitionSeconds(currentClip);
+      if (localTime >= duration) {
+        drawTo();
+        return;
       }
-      drawMedia(ctx, currentMedia, localTime, progress);
-      } else {
-        drawMedia(ctx, currentMedia, localTime, 1);
-        if (currentClip.transition === "fade-in") {
-          const progress = Math.min(1, Math.max(0, localTime / TRANSITION_DURATION));
-          ctx.save();
-        ctx.fillStyle = `rgba(0,0,0,${1 - progress})`;
-        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-        ctx.restore();
-      } else if (currentClip.transition === "white-flash" || currentClip.transition === "cine-sweep") {
-        const progress = Math.min(1, Math.max(0, localTime / TRANSITION_DURATION));
-        applyTransitionOverlay(ctx, currentClip.transition, progress);
+
+      const definition = getTransition(currentClip.transition);
+      const params = resolveTransitionParams(currentClip);
+      const source = definition.source(params);
+      const previousElement = previousClip ? mediaCache.current.get(previousClip.mediaId) : undefined;
+      const drawFrom = (alpha = 1) => {
+        if (source.kind === "previous" && previousClip && previousElement) {
+          const previousAsset = mediaLibrary.find((asset) => asset.id === previousClip.mediaId)!;
+          drawClipLayer(
+            ctx,
+            previousClip,
+            { element: previousElement, asset: previousAsset },
+            previousClip.duration,
+            alpha,
+          );
+          return;
         }
-      }
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.fillStyle = source.kind === "color" ? source.color : TRANSITION_BACKGROUND;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        ctx.restore();
+      };
+
+      ctx.save();
+      definition.render({
+        ctx,
+        progress: ease(currentClip.transitionEasing ?? "linear", localTime / duration),
+        params,
+        drawFrom,
+        drawTo,
+      });
+      ctx.restore();
     },
     [normalizedTimeline, mediaLibrary],
   );
 
+  const renderFrame = useCallback(
+    (ctx: CanvasRenderingContext2D, time: number) => {
+      ctx.fillStyle = "#050814";
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      drawBaseTrack(ctx, time);
+
+      overlays.forEach((overlay) => {
+        const element = overlay.mediaId ? mediaCache.current.get(overlay.mediaId) : undefined;
+        const asset = mediaLibrary.find((item) => item.id === overlay.mediaId);
+        drawOverlay(ctx, overlay, element && asset ? { element, asset } : null, time);
+      });
+
+      if (captionSettings.burnIn) {
+        const caption = findCaptionAt(captions, time);
+        if (caption) drawCaption(ctx, caption.text, captionSettings);
+      }
+    },
+    [drawBaseTrack, overlays, mediaLibrary, captions, captionSettings],
+  );
+
   useEffect(() => {
     if (!playerState.isPlaying) {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
@@ -413,6 +1182,7 @@ export function VideoComposerModule() {
         animationRef.current = requestAnimationFrame(loop);
       } else {
         renderFrame(ctx, audioEl.currentTime);
+        stopTrackPlayback();
         setPlayerState((state) => ({ ...state, isPlaying: false }));
       }
     };
@@ -421,23 +1191,27 @@ export function VideoComposerModule() {
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [playerState.isPlaying, renderFrame]);
+  }, [playerState.isPlaying, renderFrame, stopTrackPlayback]);
 
   useEffect(() => {
     const ctx = canvasRef.current?.getContext("2d");
     if (!ctx) return;
-    renderFrame(ctx, 0);
-  }, [renderFrame, activeAudio?.id]);
+    renderFrame(ctx, audioRef.current?.currentTime ?? 0);
+  }, [renderFrame, activeAudio?.id, exportPresetId]);
 
-  const handlePlayToggle = () => {
-    if (!audioRef.current) return;
+  const handlePlayToggle = async () => {
+    const audioElement = audioRef.current;
+    if (!audioElement) return;
     if (playerState.isPlaying) {
-      audioRef.current.pause();
+      audioElement.pause();
+      stopTrackPlayback();
       setPlayerState((state) => ({ ...state, isPlaying: false }));
     } else {
-      audioRef.current.currentTime = 0;
-      audioRef.current.play();
-      setPlayerState((state) => ({ ...state, isPlaying: true, currentTime: 0 }));
+      if (audioElement.ended) audioElement.currentTime = 0;
+      const startAt = audioElement.currentTime;
+      await startTrackPlayback(startAt);
+      audioElement.play();
+      setPlayerState((state) => ({ ...state, isPlaying: true, currentTime: startAt }));
     }
   };
 
@@ -492,43 +1266,104 @@ export function VideoComposerModule() {
       start: total,
       duration,
       transition: timeline.length === 0 ? "fade-in" : "nenhuma",
+      motion: asset.kind === "image" ? randomMotion() : undefined,
     };
     setTimeline(normalizeTimeline([...timeline, clip]));
   };
 
   const handleApplySimpleImage = (asset: MediaAsset) => {
-    if (!activeAudio) return;
-    const totalDuration = activeAudio.durationSeconds || activeAudio.durationEstimateSeconds;
+    if (!narration) return;
+    const totalDuration = narration.duration;
     const clip: TimelineClip = {
       id: crypto.randomUUID(),
       mediaId: asset.id,
       start: 0,
       duration: Math.max(1, totalDuration),
       transition: "fade-in",
+      motion: randomMotion(),
     };
     setTimeline([clip]);
   };
 
+  const exportBaseName = () => {
+    const voiceLabel =
+      voiceLibrary.find((voice) => voice.id === activeAudio?.settings.voiceId)?.label ?? "voz";
+    return `aurora-video-${voiceLabel.toLowerCase()}-${Date.now()}`;
+  };
+
+  const downloadCaptions = (baseName: string) => {
+    if (!captions.length) return;
+    downloadBlob(new Blob([formatSrt(captions)], { type: "application/x-subrip" }), `${baseName}.srt`);
+    downloadBlob(new Blob([formatVtt(captions)], { type: "text/vtt" }), `${baseName}.vtt`);
+  };
+
+  const handleGenerateCaptions = () => {
+    if (!activeAudio?.cues?.length) return;
+    const cues = buildCaptionCues(activeAudio.cues);
+    const ranges = narration?.ranges;
+    if (!ranges) {
+      setCaptions(activeAudio.id, cues);
+      return;
+    }
+    setCaptions(
+      activeAudio.id,
+      cues.flatMap((cue) => {
+        const start = mapSourceTime(ranges, cue.start);
+        if (start === null) return [];
+        const end = mapSourceTime(ranges, cue.end) ?? narration.duration;
+        return end > start ? [{ ...cue, start, end }] : [];
+      }),
+    );
+  };
+
+  const handleCaptionChange = (id: string, patch: Partial<CaptionCue>, field: string) => {
+    if (!activeAudio) return;
+    setCaptions(
+      activeAudio.id,
+      captions.map((cue) => (cue.id === id ? { ...cue, ...patch } : cue)),
+      { coalesceKey: `caption:${id}:${field}` },
+    );
+  };
+
+  const handleCaptionRemove = (id: string) => {
+    if (!activeAudio) return;
+    setCaptions(activeAudio.id, captions.filter((cue) => cue.id !== id));
+  };
+
+  const handleCaptionAdd = () => {
+    if (!activeAudio) return;
+    const start = playerState.currentTime;
+    const cue: CaptionCue = { id: crypto.randomUUID(), start, end: start + 2, text: "Nova legenda" };
+    setCaptions(activeAudio.id, [...captions, cue].sort((a, b) => a.start - b.start));
+  };
+
   const handleExport = async () => {
     if (!canvasRef.current || !activeAudio || !timeline.length) return;
     if (!audioRef.current) return;
 
-    const canvasStream = canvasRef.current.captureStream(30);
+    const canvasStream = canvasRef.current.captureStream(exportPreset.fps);
     const audioElement = audioRef.current;
     const audioContext = new AudioContext();
     const sourceNode = audioContext.createMediaElementSource(audioElement);
     const destinationNode = audioContext.createMediaStreamDestination();
     sourceNode.connect(destinationNode);
     sourceNode.connect(audioContext.destination);
+    const trackBus = audioContext.createGain();
+    trackBus.connect(destinationNode);
+    trackBus.connect(audioContext.destination);
+    const buffers = await decodeTrackBuffers(audioContext, audioTracks, trackBuffers.current);
+    const duckingPlan = await resolveDuckingPlan(audioContext);
+    let trackNodes: AudioBufferSourceNode[] = [];
 
     const combinedStream = new MediaStream([
       ...canvasStream.getVideoTracks(),
       ...destinationNode.stream.getAudioTracks(),
     ]);
 
+    const recording = resolveRecorderMimeType(exportPreset.format, exportPreset);
     const recorder = new MediaRecorder(combinedStream, {
-      mimeType: "video/webm;codecs=vp9,opus",
-      videoBitsPerSecond: 4_000_000,
+      mimeType: recording.mimeType,
+      videoBitsPerSecond: exportPreset.videoBitrate,
     });
 
     const chunks: BlobPart[] = [];
@@ -538,17 +1373,10 @@ export function VideoComposerModule() {
     };
 
     recorder.onstop = () => {
-      const blob = new Blob(chunks, { type: "video/webm" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      const voiceLabel =
-        voiceLibrary.find((voice) => voice.id === activeAudio.settings.voiceId)?.label ?? "voz";
-      link.download = `aurora-video-${voiceLabel.toLowerCase()}-${Date.now()}.webm`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      setTimeout(() => URL.revokeObjectURL(url), 2000);
+      const blob = new Blob(chunks, { type: recording.mimeType.split(";")[0] });
+      const baseName = exportBaseName();
+      downloadBlob(blob, `${baseName}.${recording.format}`);
+      downloadCaptions(baseName);
       audioElement.pause();
       audioElement.currentTime = 0;
       setPlayerState((state) => ({ ...state, isExporting: false, isPlaying: false, currentTime: 0 }));
@@ -557,8 +1385,17 @@ export function VideoComposerModule() {
     setPlayerState((state) => ({ ...state, isExporting: true, isPlaying: true }));
     audioElement.currentTime = 0;
     await audioContext.resume();
-    recorder.start(1000 / 30);
+    recorder.start(1000 / exportPreset.fps);
     await audioElement.play();
+    trackNodes = scheduleTracks(
+      audioContext,
+      trackBus,
+      audioTracks,
+      buffers,
+      audioContext.currentTime,
+      0,
+      duckingPlan,
+    );
 
     const ctx = canvasRef.current.getContext("2d");
     const renderLoop = () => {
@@ -569,6 +1406,8 @@ export function VideoComposerModule() {
       } else {
         if (animationRef.current) cancelAnimationFrame(animationRef.current);
         recorder.stop();
+        stopSources(trackNodes);
+        trackBus.disconnect();
         sourceNode.disconnect();
         destinationNode.disconnect();
         audioContext.close();
@@ -578,6 +1417,210 @@ export function VideoComposerModule() {
     animationRef.current = requestAnimationFrame(renderLoop);
   };
 
+  const seekMediaForTime = useCallback(
+    async (time: number) => {
+      if (!normalizedTimeline.length) return;
+      const currentIndex = normalizedTimeline.findIndex(
+        (clip) => time >= clip.start && time < clip.start + clip.duration,
+      );
+      const safeIndex = currentIndex === -1 ? normalizedTimeline.length - 1 : currentIndex;
+      const currentClip = normalizedTimeline[safeIndex];
+      const previousClip = normalizedTimeline[safeIndex - 1];
+      const localTime = time - currentClip.start;
+      const layers = [{ clip: currentClip, timestamp: localTime }];
+      const transitionDuration = transitionSeconds(currentClip);
+
+      if (previousClip && localTime < transitionDuration && blendsPreviousClip(currentClip)) {
+        layers.push({
+          clip: previousClip,
+          timestamp: previousClip.duration,
+        });
+      }
+
+      const targets = layers.map(({ clip, timestamp }) => ({ mediaId: clip.mediaId, timestamp }));
+      overlays.forEach((overlay) => {
+        if (overlay.mediaId && time >= overlay.start && time < overlay.start + overlay.duration) {
+          targets.push({ mediaId: overlay.mediaId, timestamp: time - overlay.start });
+        }
+      });
+
+      await Promise.all(
+        targets.map(({ mediaId, timestamp }) => {
+          const element = mediaCache.current.get(mediaId);
+          const asset = mediaLibrary.find((item) => item.id === mediaId);
+          if (!(element instanceof HTMLVideoElement) || !asset) return Promise.resolve();
+          return seekVideo(element, videoSeekTime(asset, element, timestamp));
+        }),
+      );
+    },
+    [normalizedTimeline, mediaLibrary, overlays],
+  );
+
+  const handleOfflineExport = async () => {
+    if (!canvasRef.current || !activeAudio || !narration || !timeline.length) return;
+    const ctx = canvasRef.current.getContext("2d");
+    if (!ctx) return;
+
+    const missing = [
+      ...timeline.map((clip) => clip.mediaId),
+      ...overlays.flatMap((overlay) => (overlay.mediaId ? [overlay.mediaId] : [])),
+    ].filter((mediaId) => !mediaCache.current.has(mediaId));
+    if (missing.length) {
+      setOfflineExport({
+        isExporting: false,
+        progress: 0,
+        error: "Aguarde o carregamento de todas as mídias da timeline.",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    offlineAbort.current = controller;
+    setOfflineExport({ isExporting: true, progress: 0, error: null });
+
+    try {
+      const duration = narration.duration;
+      const audio = audioTracks.length
+        ? await renderMixdown({
+            narration: narration.blob,
+            tracks: audioTracks,
+            duration,
+            ducking: await resolveDuckingPlan(new OfflineAudioContext(1, 1, MIX_SAMPLE_RATE)),
+          })
+        : narration.blob;
+      const blob = await exportOffline({
+        canvas: canvasRef.current,
+        drawFrame: async (time) => {
+          await seekMediaForTime(time);
+          renderFrame(ctx, time);
+        },
+        audio,
+        duration,
+        fps: exportPreset.fps,
+        format: exportPreset.format,
+        videoBitrate: exportPreset.videoBitrate,
+        onProgress: (progress) => setOfflineExport((state) => ({ ...state, progress })),
+        signal: controller.signal,
+      });
+      const baseName = exportBaseName();
+      downloadBlob(blob, `${baseName}.${exportPreset.format}`);
+      downloadCaptions(baseName);
+      setOfflineExport({ isExporting: false, progress: 1, error: null });
+    } catch (err) {
+      const cancelled = err instanceof DOMException && err.name === "AbortError";
+      setOfflineExport({
+        isExporting: false,
+        progress: 0,
+        error: cancelled
+          ? null
+          : err instanceof Error
+            ? err.message
+            : "Falha na exportação offline.",
+      });
+    } finally {
+      offlineAbort.current = null;
+      renderFrame(ctx, 0);
+    }
+  };
+
+  const handleServerRender = async () => {
+    if (!activeAudio || !narration || !timeline.length) return;
+
+    const usedMedia = mediaLibrary.filter((asset) =>
+      timeline.some((clip) => clip.mediaId === asset.id),
+    );
+    const manifest: RenderManifest = {
+      format: exportPreset.format,
+      width: exportPreset.width,
+      height: exportPreset.height,
+      fps: exportPreset.fps,
+      videoBitrate: exportPreset.videoBitrate,
+      transitionDuration: DEFAULT_TRANSITION_DURATION,
+      audio: {
+        field: "audio",
+        duration: narration.duration,
+      },
+      media: usedMedia.map((asset) => ({ id: asset.id, kind: asset.kind, field: `media-${asset.id}` })),
+      timeline: normalizeTimeline(timeline),
+      tracks: audioTracks.map((track) => ({
+        id: track.id,
+        field: `track-${track.id}`,
+        start: track.start,
+        duration: track.duration,
+        volume: track.volume,
+        loop: track.loop,
+        duck: track.kind === "música",
+      })),
+      ducking: ducking.enabled
+        ? {
+            thresholdDb: ducking.thresholdDb,
+            attackMs: ducking.attackMs,
+            releaseMs: ducking.releaseMs,
+            amountDb: ducking.amountDb,
+          }
+        : undefined,
+      overlays: [],
+    };
+
+    const formData = new FormData();
+    formData.append("audio", narration.blob, activeAudio.name);
+    usedMedia.forEach((asset) => formData.append(`media-${asset.id}`, asset.file, asset.name));
+    audioTracks.forEach((track) => formData.append(`track-${track.id}`, track.blob, track.name));
+
+    setServerRender((state) => ({ ...state, isRendering: true, error: null }));
+    try {
+      for (const overlay of overlays) {
+        const field = `overlay-${overlay.id}`;
+        const base = { id: overlay.id, field, start: overlay.start, duration: overlay.duration };
+        if (overlay.kind === "lower-third") {
+          formData.append(
+            field,
+            await renderLowerThirdImage(overlay, exportPreset.width, exportPreset.height),
+            `${overlay.id}.png`,
+          );
+          manifest.overlays.push({ ...base, kind: "image", x: 0.5, y: 0.5, width: 1, opacity: overlay.opacity });
+          continue;
+        }
+        const asset = mediaLibrary.find((item) => item.id === overlay.mediaId);
+        if (!asset) continue;
+        formData.append(field, asset.file, asset.name);
+        manifest.overlays.push({
+          ...base,
+          kind: asset.kind,
+          x: Math.min(1, Math.max(0, overlay.x)),
+          y: Math.min(1, Math.max(0, overlay.y)),
+          width: overlay.scale,
+          opacity: overlay.opacity,
+        });
+      }
+      if (captionSettings.burnIn && captions.length) {
+        formData.append("captions", new Blob([formatSrt(captions)], { type: "application/x-subrip" }), "captions.srt");
+        manifest.captions = {
+          field: "captions",
+          position: captionSettings.position,
+          fontScale: captionSettings.fontScale,
+        };
+      }
+      formData.append("manifest", JSON.stringify(manifest));
+
+      const response = await fetch("/api/render", { method: "POST", body: formData });
+      if (!response.ok) {
+        throw new Error(await renderErrorMessage(response));
+      }
+      const blob = await response.blob();
+      const baseName = exportBaseName();
+      downloadBlob(blob, `${baseName}.${exportPreset.format}`);
+      downloadCaptions(baseName);
+      setServerRender((state) => ({ ...state, isRendering: false }));
+    } catch (err) {
+      setServerRender((state) => ({
+        ...state,
+        isRendering: false,
+        error: err instanceof Error ? err.message : "Falha ao renderizar o vídeo.",
+      }));
+    }
+  };
+
   const handleRemoveClip = (id: string) => {
     const filtered = timeline.filter((clip) => clip.id !== id);
     setTimeline(normalizeTimeline(filtered));
@@ -587,19 +1630,83 @@ export function VideoComposerModule() {
     const updated = timeline.map((clip) =>
       clip.id === id ? { ...clip, duration } : clip,
     );
-    setTimeline(normalizeTimeline(updated));
+    setTimeline(normalizeTimeline(updated), { coalesceKey: `duration:${id}` });
   };
 
-  const handleTransitionChange = (id: string, transition: TransitionType) => {
+  const handleTransitionChange = (id: string, patch: Partial<ClipTransition>) => {
     const updated = timeline.map((clip) =>
-      clip.id === id ? { ...clip, transition } : clip,
+      clip.id === id ? { ...clip, ...patch } : clip,
     );
-    setTimeline(updated);
+    setTimeline(updated, { coalesceKey: `transition:${id}` });
+  };
+
+  const handleMotionChange = (id: string, motion: ClipMotion | undefined) => {
+    const updated = timeline.map((clip) =>
+      clip.id === id ? { ...clip, motion } : clip,
+    );
+    setTimeline(updated, { coalesceKey: `motion:${id}` });
+  };
+
+  const handleFitChange = (id: string, fit: ClipFit) => {
+    const updated = timeline.map((clip) =>
+      clip.id === id ? { ...clip, fit } : clip,
+    );
+    setTimeline(updated, { coalesceKey: `fit:${id}` });
   };
 
   const handleRemoveMedia = (asset: MediaAsset) => {
     removeMedia(asset.id);
-    URL.revokeObjectURL(asset.url);
+  };
+
+  const handleTrackUpload = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+    kind: AudioTrackKind,
+  ) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    for (const file of files) {
+      const measured = await getAudioDuration(file).catch(() => 0);
+      const sourceDuration = Number.isFinite(measured) && measured > 0 ? measured : 1;
+      const isMusic = kind === "música";
+      addAudioTrack({
+        id: crypto.randomUUID(),
+        kind,
+        name: file.name,
+        url: URL.createObjectURL(file),
+        blob: file,
+        start: isMusic ? 0 : playerState.currentTime,
+        duration: isMusic ? Math.max(sourceDuration, narrationDuration) : sourceDuration,
+        sourceDuration,
+        volume: isMusic ? 0.3 : 0.9,
+        loop: isMusic,
+      });
+    }
+  };
+
+  const handleAddOverlay = (kind: OverlayKind) => {
+    const asset = mediaLibrary.find((item) => item.id === overlayMediaId);
+    if (kind !== "lower-third" && !asset) return;
+    const defaults: Record<OverlayKind, Pick<OverlayClip, "x" | "y" | "scale" | "opacity">> = {
+      logo: { x: 0.88, y: 0.12, scale: 0.14, opacity: 0.9 },
+      "lower-third": { x: 0.3, y: 0.82, scale: 0.42, opacity: 1 },
+      pip: { x: 0.78, y: 0.74, scale: 0.32, opacity: 1 },
+    };
+    const duration =
+      kind === "logo"
+        ? Math.max(1, narrationDuration)
+        : kind === "pip" && asset?.kind === "video"
+          ? asset.duration ?? 6
+          : 5;
+    addOverlay({
+      id: crypto.randomUUID(),
+      kind,
+      mediaId: kind === "lower-third" ? undefined : asset?.id,
+      title: kind === "lower-third" ? "Nome em destaque" : undefined,
+      subtitle: kind === "lower-third" ? "Cargo ou descrição" : undefined,
+      start: kind === "logo" ? 0 : playerState.currentTime,
+      duration,
+      ...defaults[kind],
+    });
   };
 
   const handleModeChange = (value: ComposerMode) => {
@@ -686,6 +1793,8 @@ export function VideoComposerModule() {
             </div>
           </div>
 
+          {activeAudio && <NarrationEditor audio={activeAudio} />}
+
           <div className="rounded-2xl border border-white/10 bg-slate-900/70 p-6">
             <div className="flex flex-col gap-3">
               <h3 className="text-lg font-semibold text-white">Biblioteca de mídia</h3>
@@ -817,9 +1926,12 @@ export function VideoComposerModule() {
                         key={clip.id}
                         clip={clip}
                         media={mediaLibrary.find((asset) => asset.id === clip.mediaId)}
+                        frameAspect={exportPreset.width / exportPreset.height}
                         onRemove={() => handleRemoveClip(clip.id)}
                         onDurationChange={(value) => handleDurationChange(clip.id, value)}
                         onTransitionChange={(value) => handleTransitionChange(clip.id, value)}
+                        onMotionChange={(value) => handleMotionChange(clip.id, value)}
+                        onFitChange={(value) => handleFitChange(clip.id, value)}
                       />
                     ))}
                   </div>
@@ -829,18 +1941,284 @@ export function VideoComposerModule() {
               {durationMismatch && (
                 <div className="rounded-xl border border-amber-400/50 bg-amber-500/10 p-4 text-sm text-amber-100">
                   A duração total dos takes ({compositionDuration.toFixed(1)}s) não corresponde ao áudio (
-                  {(activeAudio?.durationSeconds ?? 0).toFixed(1)}s). Ajuste as durações para sincronizar.
+                  {(narration?.duration ?? 0).toFixed(1)}s). Ajuste as durações para sincronizar.
                 </div>
               )}
             </div>
           </div>
 
+          <div className="rounded-2xl border border-white/10 bg-slate-900/70 p-6">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Trilhas e sobreposições</h3>
+              <p className="text-sm text-slate-300/75">
+                Adicione trilha musical, efeitos sonoros, logos, lower-thirds e picture-in-picture com início próprio.
+              </p>
+            </div>
+
+            <div className="mt-6 flex flex-wrap gap-3">
+              {(["música", "efeito"] as AudioTrackKind[]).map((kind) => (
+                <label
+                  key={kind}
+                  className="cursor-pointer rounded-full border border-blue-400/50 px-4 py-2 text-xs uppercase tracking-[0.35em] text-blue-100 transition hover:shadow-[0_0_25px_rgba(88,141,255,0.45)]"
+                >
+                  {kind === "música" ? "Adicionar trilha musical" : "Adicionar efeito sonoro"}
+                  <input
+                    type="file"
+                    multiple={kind === "efeito"}
+                    accept="audio/*"
+                    onChange={(event) => handleTrackUpload(event, kind)}
+                    className="hidden"
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-4 space-y-4">
+              {audioTracks.map((track) => (
+                <AudioTrackCard
+                  key={track.id}
+                  track={track}
+                  maxTime={narrationDuration}
+                  onChange={(patch, field) =>
+                    updateAudioTrack(track.id, patch, field ? { coalesceKey: `track:${track.id}:${field}` } : undefined)
+                  }
+                  onRemove={() => removeAudioTrack(track.id)}
+                />
+              ))}
+            </div>
+
+            {audioTracks.some((track) => track.kind === "música") && (
+              <div className="mt-4 flex flex-col gap-4 rounded-xl border border-white/10 bg-white/5 p-4">
+                <label className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70">
+                  <input
+                    type="checkbox"
+                    checked={ducking.enabled}
+                    onChange={(event) => setDucking({ enabled: event.target.checked })}
+                    className="accent-blue-400"
+                  />
+                  Ducking automático da trilha sob a locução
+                </label>
+                {ducking.enabled && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <RangeControl
+                      label="Limiar de voz"
+                      value={ducking.thresholdDb}
+                      min={-60}
+                      max={-10}
+                      step={1}
+                      format={(value) => `${value.toFixed(0)} dB`}
+                      onChange={(thresholdDb) => setDucking({ thresholdDb })}
+                    />
+                    <RangeControl
+                      label="Redução"
+                      value={ducking.amountDb}
+                      min={0}
+                      max={30}
+                      step={1}
+                      format={(value) => `${value.toFixed(0)} dB`}
+                      onChange={(amountDb) => setDucking({ amountDb })}
+                    />
+                    <RangeControl
+                      label="Ataque"
+                      value={ducking.attackMs}
+                      min={10}
+                      max={500}
+                      step={10}
+                      format={(value) => `${value.toFixed(0)} ms`}
+                      onChange={(attackMs) => setDucking({ attackMs })}
+                    />
+                    <RangeControl
+                      label="Liberação"
+                      value={ducking.releaseMs}
+                      min={50}
+                      max={2000}
+                      step={10}
+                      format={(value) => `${value.toFixed(0)} ms`}
+                      onChange={(releaseMs) => setDucking({ releaseMs })}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="mt-6 flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+              <select
+                value={overlayMediaId}
+                onChange={(event) => setOverlayMediaId(event.target.value)}
+                className="rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white outline-none focus:border-blue-400/60"
+              >
+                <option value="">Selecione uma mídia</option>
+                {mediaLibrary.map((asset) => (
+                  <option key={asset.id} value={asset.id}>
+                    {asset.name}
+                  </option>
+                ))}
+              </select>
+              {(["logo", "pip", "lower-third"] as OverlayKind[]).map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => handleAddOverlay(kind)}
+                  disabled={kind !== "lower-third" && !overlayMediaId}
+                  className="rounded-full border border-white/10 px-4 py-2 text-[10px] uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-50"
+                >
+                  + {overlayLabels[kind]}
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-4 space-y-4">
+              {overlays.map((overlay) => (
+                <OverlayCard
+                  key={overlay.id}
+                  overlay={overlay}
+                  media={mediaLibrary.find((asset) => asset.id === overlay.mediaId)}
+                  maxTime={narrationDuration}
+                  onChange={(patch, field) =>
+                    updateOverlay(overlay.id, patch, field ? { coalesceKey: `overlay:${overlay.id}:${field}` } : undefined)
+                  }
+                  onRemove={() => removeOverlay(overlay.id)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-white/10 bg-slate-900/70 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-white">Legendas</h3>
+                <p className="text-sm text-slate-300/75">
+                  Gere legendas a partir do tempo de síntese da locução, edite cada trecho e exporte em SRT/VTT.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={handleGenerateCaptions}
+                  disabled={!activeAudio?.cues?.length}
+                  className="rounded-full border border-blue-400/50 px-4 py-2 text-xs uppercase tracking-[0.35em] text-blue-100 transition hover:shadow-[0_0_25px_rgba(88,141,255,0.45)] disabled:opacity-50"
+                >
+                  {captions.length ? "Regerar legendas" : "Gerar legendas"}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCaptionAdd}
+                  disabled={!activeAudio}
+                  className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-50"
+                >
+                  + Trecho
+                </button>
+                <button
+                  type="button"
+                  onClick={() => downloadCaptions(`aurora-legendas-${Date.now()}`)}
+                  disabled={!captions.length}
+                  className="rounded-full border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.35em] text-slate-200/80 transition hover:border-blue-400/50 disabled:opacity-50"
+                >
+                  Baixar SRT/VTT
+                </button>
+              </div>
+            </div>
+
+            {activeAudio && !activeAudio.cues?.length && !captions.length && (
+              <div className="mt-4 rounded-xl border border-dashed border-white/10 bg-white/5 p-4 text-sm text-slate-200/70">
+                Esta locução não possui marcações de tempo. Gere o áudio novamente para criar legendas automáticas.
+              </div>
+            )}
+
+            <div className="mt-4 flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 p-4">
+              <label className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-slate-300/70">
+                <input
+                  type="checkbox"
+                  checked={captionSettings.burnIn}
+                  onChange={(event) => setCaptionSettings({ burnIn: event.target.checked })}
+                  className="accent-blue-400"
+                />
+                Gravar no vídeo
+              </label>
+              <div className="flex gap-2">
+                {(["inferior", "superior"] as CaptionPosition[]).map((position) => (
+                  <button
+                    key={position}
+                    type="button"
+                    onClick={() => setCaptionSettings({ position })}
+                    className={`rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.3em] transition ${captionSettings.position === position ? "bg-blue-500/30 text-white" : "border border-white/10 text-slate-200/70 hover:border-blue-400/40"}`}
+                  >
+                    {position}
+                  </button>
+                ))}
+              </div>
+              <div className="min-w-[180px] flex-1">
+                <RangeControl
+                  label="Tamanho"
+                  value={captionSettings.fontScale}
+                  min={0.6}
+                  max={2}
+                  step={0.05}
+                  format={formatPercent}
+                  onChange={(fontScale) => setCaptionSettings({ fontScale })}
+                />
+              </div>
+            </div>
+
+            {captions.length > 0 && (
+              <div className="mt-4 max-h-[420px] space-y-3 overflow-y-auto pr-2">
+                {captions.map((cue) => {
+                  const isCurrent =
+                    playerState.currentTime >= cue.start && playerState.currentTime < cue.end;
+                  return (
+                    <div
+                      key={cue.id}
+                      className={`flex flex-col gap-2 rounded-xl border p-3 ${isCurrent ? "border-blue-400/50 bg-blue-500/10" : "border-white/10 bg-slate-900/60"}`}
+                    >
+                      <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.3em] text-slate-300/70">
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={Number(cue.start.toFixed(2))}
+                          onChange={(event) =>
+                            handleCaptionChange(cue.id, { start: Math.max(0, Number(event.target.value)) }, "start")
+                          }
+                          className="w-24 rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white outline-none focus:border-blue-400/60"
+                        />
+                        <span>→</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.1}
+                          value={Number(cue.end.toFixed(2))}
+                          onChange={(event) =>
+                            handleCaptionChange(cue.id, { end: Math.max(0, Number(event.target.value)) }, "end")
+                          }
+                          className="w-24 rounded-lg border border-white/10 bg-slate-900/60 px-2 py-1 text-xs text-white outline-none focus:border-blue-400/60"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => handleCaptionRemove(cue.id)}
+                          className="ml-auto rounded-full border border-white/10 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-slate-200/70 transition hover:border-red-400/40 hover:text-red-200"
+                        >
+                          Remover
+                        </button>
+                      </div>
+                      <textarea
+                        value={cue.text}
+                        rows={2}
+                        onChange={(event) => handleCaptionChange(cue.id, { text: event.target.value }, "text")}
+                        className="w-full resize-none rounded-lg border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-white outline-none focus:border-blue-400/60"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
           <div className="rounded-2xl border border-white/10 bg-slate-900/70 p-6">
             <div className="flex flex-wrap items-center justify-between gap-4">
               <div>
                 <h3 className="text-lg font-semibold text-white">Preview & Export</h3>
                 <p className="text-sm text-slate-300/75">
-                  Visualize o resultado final com transições e exporte em alta definição (WebM 4Mbps).
+                  Visualize o resultado final com transições e exporte em alta definição ({exportPreset.description}).
                 </p>
               </div>
               <div className="flex gap-3">
@@ -863,19 +2241,104 @@ export function VideoComposerModule() {
               </div>
             </div>
 
+            <div className="mt-4 flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+              <span className="text-xs uppercase tracking-[0.35em] text-slate-300/70">
+                Preset de exportação
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {exportPresets.map((preset) => {
+                  const isActive = exportPreset.id === preset.id;
+                  return (
+                    <button
+                      key={preset.id}
+                      type="button"
+                      onClick={() => setExportPreset(preset.id)}
+                      disabled={playerState.isExporting || offlineExport.isExporting || serverRender.isRendering}
+                      className={`flex flex-col items-start rounded-xl px-3 py-2 text-left transition disabled:opacity-50 ${isActive ? "bg-purple-500/30 text-white shadow-[0_0_24px_rgba(160,90,255,0.35)]" : "border border-white/10 text-slate-200/70 hover:border-purple-400/40"}`}
+                    >
+                      <span className="text-[10px] uppercase tracking-[0.35em]">{preset.label}</span>
+                      <span className="text-[10px] text-slate-300/70">{preset.description}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="mt-4 flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+              <span className="text-xs uppercase tracking-[0.35em] text-slate-300/70">
+                Render no servidor ({exportPreset.format})
+              </span>
+              <button
+                type="button"
+                onClick={handleServerRender}
+                disabled={!activeAudio || !timeline.length || serverRender.isRendering}
+                className="rounded-full border border-purple-400/60 px-5 py-2 text-xs uppercase tracking-[0.35em] text-purple-100 transition hover:shadow-[0_0_30px_rgba(160,90,255,0.45)] disabled:opacity-50"
+              >
+                {serverRender.isRendering ? "Renderizando no servidor..." : "Renderizar arquivo final"}
+              </button>
+              {serverRender.error && (
+                <span className="w-full text-xs text-red-200">{serverRender.error}</span>
+              )}
+            </div>
+
+            <div className="mt-4 flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <span className="text-xs uppercase tracking-[0.35em] text-slate-300/70">
+                  Exportação offline quadro a quadro ({exportPreset.format})
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleOfflineExport}
+                    disabled={
+                      !activeAudio ||
+                      !timeline.length ||
+                      offlineExport.isExporting ||
+                      playerState.isExporting ||
+                      !supportsOfflineExport()
+                    }
+                    className="rounded-full border border-blue-400/60 px-5 py-2 text-xs uppercase tracking-[0.35em] text-blue-100 transition hover:shadow-[0_0_30px_rgba(88,141,255,0.45)] disabled:opacity-50"
+                  >
+                    {offlineExport.isExporting ? "Codificando..." : "Exportar offline"}
+                  </button>
+                  {offlineExport.isExporting && (
+                    <button
+                      type="button"
+                      onClick={() => offlineAbort.current?.abort()}
+                      className="rounded-full border border-white/10 px-4 py-2 text-[10px] uppercase tracking-[0.35em] text-slate-200/70 transition hover:border-red-400/50 hover:text-red-200"
+                    >
+                      Cancelar
+                    </button>
+                  )}
+                </div>
+              </div>
+              {offlineExport.isExporting && (
+                <div className="relative h-2 w-full overflow-hidden rounded-full bg-blue-500/20">
+                  <div
+                    className="absolute left-0 top-0 h-full bg-gradient-to-r from-blue-400 via-indigo-400 to-purple-500"
+                    style={{ width: `${(offlineExport.progress * 100).toFixed(1)}%` }}
+                  />
+                </div>
+              )}
+              {offlineExport.error && (
+                <span className="text-xs text-red-200">{offlineExport.error}</span>
+              )}
+            </div>
+
             <div className="mt-6 flex flex-col gap-4">
               <div className="overflow-hidden rounded-2xl border border-white/10 bg-black/70">
                 <canvas
                   ref={canvasRef}
-                  width={CANVAS_WIDTH}
-                  height={CANVAS_HEIGHT}
-                  className="aspect-video w-full bg-[#04050B]"
+                  width={exportPreset.width}
+                  height={exportPreset.height}
+                  style={{ aspectRatio: `${exportPreset.width} / ${exportPreset.height}` }}
+                  className="mx-auto block max-h-[640px] max-w-full bg-[#04050B]"
                 />
               </div>
-              <audio ref={audioRef} src={activeAudio?.url} className="hidden" />
+              <audio ref={audioRef} src={narration?.url} className="hidden" />
               <div className="flex items-center justify-between text-xs uppercase tracking-[0.35em] text-slate-300/70">
                 <span>Tempo atual: {playerState.currentTime.toFixed(1)}s</span>
-                <span>Total: {(activeAudio?.durationSeconds ?? 0).toFixed(1)}s</span>
+                <span>Total: {(narration?.duration ?? 0).toFixed(1)}s</span>
               </div>
             </div>
           </div>
@@ -0,0 +1,340 @@
+import ffmpeg from "fluent-ffmpeg";
+import ffmpegPath from "ffmpeg-static";
+
+import { DEFAULT_CLIP_FIT } from "@/lib/render/fit";
+import { OVERLAY_FADE_SECONDS, RenderManifest } from "@/lib/render/manifest";
+import { ClipMotion, easeExpression } from "@/lib/render/motion";
+import { getTransition, resolveTransitionParams, transitionSeconds } from "@/lib/render/transitions";
+
+if (ffmpegPath) {
+  ffmpeg.setFfmpegPath(ffmpegPath);
+}
+
+const BACKGROUND_COLOR = "0x050814";
+const BLUR_FILL_RATIO = 0.02;
+
+export type RenderInputs = {
+  audioPath: string;
+  mediaPaths: Record<string, string>;
+  trackPaths: Record<string, string>;
+  overlayPaths: Record<string, string>;
+  captionsPath?: string;
+};
+
+function motionFilter(motion: ClipMotion, width: number, height: number, fps: number, duration: number) {
+  const { from, to } = motion;
+  const eased = easeExpression(motion.easing, `min(1,on/${(fps * duration).toFixed(3)})`);
+  const lerp = (a: number, b: number) => `(${a.toFixed(4)}+${(b - a).toFixed(4)}*${eased})`;
+  return [
+    `scale=${width * 2}:${height * 2}`,
+    `zoompan=z='1/${lerp(from.width, to.width)}':x='iw*${lerp(from.x, to.x)}':y='ih*${lerp(from.y, to.y)}':d=1:s=${width}x${height}:fps=${fps}`,
+  ];
+}
+
+function fitFilters(manifest: RenderManifest, index: number): string[] {
+  const { width, height, fps, timeline } = manifest;
+  const fit = timeline[index].fit ?? DEFAULT_CLIP_FIT;
+  const input = `[${index}:v]`;
+  const output = `[f${index}]`;
+  const center = "(main_w-overlay_w)/2:(main_h-overlay_h)/2";
+
+  if (fit.mode === "cover") {
+    return [
+      `${input}scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}:(iw-ow)*${fit.focalX.toFixed(4)}:(ih-oh)*${fit.focalY.toFixed(4)}${output}`,
+    ];
+  }
+
+  if (fit.mode === "blur-fill") {
+    const radius = Math.max(1, Math.round(width * BLUR_FILL_RATIO));
+    return [
+      `${input}split=2[fb${index}][ff${index}]`,
+      `[fb${index}]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=luma_radius=${radius}:luma_power=2,colorchannelmixer=rr=0.65:gg=0.65:bb=0.65[fbb${index}]`,
+      `[ff${index}]scale=${width}:${height}:force_original_aspect_ratio=decrease[ffs${index}]`,
+      `[fbb${index}][ffs${index}]overlay=${center}${output}`,
+    ];
+  }
+
+  if (fit.mode === "manual") {
+    const { crop } = fit;
+    const angle = ((fit.rotation * Math.PI) / 180).toFixed(5);
+    const steps = [
+      `crop=iw*${crop.width.toFixed(4)}:ih*${crop.height.toFixed(4)}:iw*${crop.x.toFixed(4)}:ih*${crop.y.toFixed(4)}`,
+      `scale=${Math.round(width * fit.scale)}:${Math.round(height * fit.scale)}:force_original_aspect_ratio=decrease:force_divisible_by=2`,
+      ...(fit.rotation ? [`rotate=a=${angle}:ow='rotw(${angle})':oh='roth(${angle})':c=${BACKGROUND_COLOR}`] : []),
+    ];
+    return [
+      `color=c=${BACKGROUND_COLOR}:s=${width}x${height}:r=${fps}[fbg${index}]`,
+      `${input}${steps.join(",")}[fm${index}]`,
+      `[fbg${index}][fm${index}]overlay=${center}:shortest=1${output}`,
+    ];
+  }
+
+  return [
+    `${input}scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${BACKGROUND_COLOR}${output}`,
+  ];
+}
+
+function clipFilter(manifest: RenderManifest, index: number, tailSeconds: number): string[] {
+  const { width, height, fps, timeline, media } = manifest;
+  const clip = timeline[index];
+  const isImage = media.find((asset) => asset.id === clip.mediaId)?.kind === "image";
+  const steps = [
+    "setsar=1",
+    `fps=${fps}`,
+    ...(clip.motion && isImage ? motionFilter(clip.motion, width, height, fps, clip.duration) : []),
+    "format=yuv420p",
+    `trim=duration=${clip.duration.toFixed(3)}`,
+    "setpts=PTS-STARTPTS",
+  ];
+
+  if (tailSeconds > 0) {
+    steps.push(`tpad=stop_mode=clone:stop_duration=${tailSeconds.toFixed(3)}`);
+  }
+
+  return [...fitFilters(manifest, index), `[f${index}]${steps.join(",")}[c${index}]`];
+}
+
+function captionFilter(manifest: RenderManifest, captionsPath: string) {
+  const { captions } = manifest;
+  if (!captions) return null;
+  const style = [
+    `Fontsize=${Math.round(12 * captions.fontScale)}`,
+    `Alignment=${captions.position === "superior" ? 8 : 2}`,
+    "MarginV=20",
+    "BorderStyle=3",
+    "Outline=1",
+    "Shadow=0",
+    "PrimaryColour=&H00FFFFFF",
+    "BackColour=&H48140805",
+    "OutlineColour=&H48140805",
+    "Bold=1",
+  ].join(",");
+  return `subtitles=filename='${captionsPath.replace(/\\/g, "/").replace(/'/g, "\\'")}':force_style='${style}'`;
+}
+
+function overlayFilters(manifest: RenderManifest, input: string, captionsPath?: string): string[] {
+  const { width, overlays, timeline, tracks } = manifest;
+  const firstInput = timeline.length + 1 + tracks.length;
+  const graph: string[] = [];
+  let current = input;
+
+  overlays.forEach((overlay, index) => {
+    const end = overlay.start + overlay.duration;
+    const fade = Math.min(OVERLAY_FADE_SECONDS, overlay.duration / 2);
+    const scaledWidth = Math.max(2, Math.round((width * overlay.width) / 2) * 2);
+    graph.push(
+      `[${firstInput + index}:v]${[
+        `scale=${scaledWidth}:-2`,
+        "format=rgba",
+        `colorchannelmixer=aa=${overlay.opacity.toFixed(3)}`,
+        `fade=t=in:st=0:d=${fade.toFixed(3)}:alpha=1`,
+        `fade=t=out:st=${(overlay.duration - fade).toFixed(3)}:d=${fade.toFixed(3)}:alpha=1`,
+        `setpts=PTS-STARTPTS+${overlay.start.toFixed(3)}/TB`,
+      ].join(",")}[o${index}]`,
+      `${current}[o${index}]overlay=x=main_w*${overlay.x.toFixed(4)}-overlay_w/2:y=main_h*${overlay.y.toFixed(4)}-overlay_h/2:eof_action=pass:enable='between(t,${overlay.start.toFixed(3)},${end.toFixed(3)})'[ov${index}]`,
+    );
+    current = `[ov${index}]`;
+  });
+
+  const captions = captionsPath ? captionFilter(manifest, captionsPath) : null;
+  graph.push(`${current}${captions ? `${captions},` : ""}format=yuv420p[vout]`);
+  return graph;
+}
+
+export function buildAudioGraph(manifest: RenderManifest): string[] {
+  const { timeline, tracks, ducking } = manifest;
+  const narrationInput = timeline.length;
+  if (!tracks.length) {
+    return [`[${narrationInput}:a]anull[aout]`];
+  }
+
+  const graph = tracks.map((track, index) => {
+    const delay = Math.round(track.start * 1000);
+    return `[${narrationInput + 1 + index}:a]atrim=duration=${track.duration.toFixed(3)},asetpts=PTS-STARTPTS,volume=${track.volume.toFixed(3)},adelay=delays=${delay}:all=1[t${index}]`;
+  });
+
+  const duckedLabels = ducking
+    ? tracks.flatMap((track, index) => (track.duck ? [`[t${index}]`] : []))
+    : [];
+  const freeLabels = tracks
+    .map((_, index) => `[t${index}]`)
+    .filter((label) => !duckedLabels.includes(label));
+  let voice = `[${narrationInput}:a]`;
+  const mixLabels = [...freeLabels];
+
+  if (ducking && duckedLabels.length) {
+    const threshold = Math.min(1, Math.max(0.000977, Math.pow(10, ducking.thresholdDb / 20)));
+    const mix = 1 - Math.pow(10, -ducking.amountDb / 20);
+    let music = duckedLabels[0];
+    if (duckedLabels.length > 1) {
+      graph.push(`${duckedLabels.join("")}amix=inputs=${duckedLabels.length}:duration=longest:normalize=0[music]`);
+      music = "[music]";
+    }
+    graph.push(
+      `${voice}asplit=2[voice][sidechain]`,
+      `${music}[sidechain]sidechaincompress=threshold=${threshold.toFixed(6)}:ratio=20:attack=${ducking.attackMs.toFixed(2)}:release=${ducking.releaseMs.toFixed(2)}:mix=${mix.toFixed(4)}[ducked]`,
+    );
+    voice = "[voice]";
+    mixLabels.push("[ducked]");
+  }
+
+  graph.push(
+    `${voice}${mixLabels.join("")}amix=inputs=${mixLabels.length + 1}:duration=longest:normalize=0[aout]`,
+  );
+  return graph;
+}
+
+function ffmpegColor(color: string) {
+  return `0x${color.replace("#", "").replace(/[^0-9a-fA-F]/g, "").padEnd(6, "0").slice(0, 6)}`;
+}
+
+export function buildRenderGraph(manifest: RenderManifest, captionsPath?: string): string[] {
+  const { timeline, transitionDuration, audio, width, height, fps } = manifest;
+  const graph: string[] = [];
+  const transitions = timeline.map((clip, index) => {
+    const definition = getTransition(clip.transition);
+    const params = resolveTransitionParams(clip);
+    const progress = `(${easeExpression(clip.transitionEasing ?? "linear", "1-P")})`;
+    return {
+      xfade: definition.xfade ? `transition=custom:expr='${definition.xfade(params, progress)}'` : null,
+      source: definition.source(params),
+      duration: transitionSeconds(clip, transitionDuration),
+      overlaps: index > 0 && definition.source(params).kind === "previous",
+    };
+  });
+
+  timeline.forEach((_, index) => {
+    const next = transitions[index + 1];
+    const tail = next?.xfade && next.overlaps ? next.duration : 0;
+    graph.push(...clipFilter(manifest, index, tail));
+  });
+
+  let current: string | null = null;
+  let cursor = 0;
+
+  for (let index = 0; index < timeline.length; index += 1) {
+    const clip = timeline[index];
+    const { xfade, source, duration, overlaps } = transitions[index];
+    let input = `[c${index}]`;
+
+    if (xfade && duration > 0 && overlaps && current) {
+      graph.push(
+        `${current}${input}xfade=${xfade}:duration=${duration.toFixed(3)}:offset=${cursor.toFixed(3)}[v${index}]`,
+      );
+      current = `[v${index}]`;
+      cursor += clip.duration;
+      continue;
+    }
+
+    if (xfade && duration > 0) {
+      const color = source.kind === "color" ? ffmpegColor(source.color) : BACKGROUND_COLOR;
+      graph.push(
+        `color=c=${color}:s=${width}x${height}:r=${fps}:d=${duration.toFixed(3)},format=yuv420p[k${index}]`,
+        `[k${index}]${input}xfade=${xfade}:duration=${duration.toFixed(3)}:offset=0[w${index}]`,
+      );
+      input = `[w${index}]`;
+    }
+
+    if (current) {
+      graph.push(`${current}${input}concat=n=2:v=1:a=0[v${index}]`);
+      current = `[v${index}]`;
+    } else {
+      current = input;
+    }
+    cursor += clip.duration;
+  }
+
+  const padding = Math.max(0, audio.duration - cursor);
+  graph.push(
+    `${current}tpad=stop_mode=clone:stop_duration=${padding.toFixed(3)},trim=duration=${audio.duration.toFixed(3)}[vbase]`,
+  );
+
+  return [...graph, ...overlayFilters(manifest, "[vbase]", captionsPath)];
+}
+
+export async function renderVideo(
+  manifest: RenderManifest,
+  { audioPath, mediaPaths, trackPaths, overlayPaths, captionsPath }: RenderInputs,
+  outputPath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Renderização cancelada.", "AbortError"));
+      return;
+    }
+
+    const command = ffmpeg();
+    const abort = () => command.kill("SIGKILL");
+    signal?.addEventListener("abort", abort, { once: true });
+    const kinds = new Map(manifest.media.map((asset) => [asset.id, asset.kind]));
+
+    manifest.timeline.forEach((clip) => {
+      command.input(mediaPaths[clip.mediaId]);
+      if (kinds.get(clip.mediaId) === "image") {
+        command.inputOptions(["-loop 1", `-t ${clip.duration.toFixed(3)}`]);
+      } else {
+        command.inputOptions([`-t ${clip.duration.toFixed(3)}`]);
+      }
+    });
+
+    command.input(audioPath);
+
+    manifest.tracks.forEach((track) => {
+      command.input(trackPaths[track.id]);
+      command.inputOptions([
+        ...(track.loop ? ["-stream_loop -1"] : []),
+        `-t ${track.duration.toFixed(3)}`,
+      ]);
+    });
+
+    manifest.overlays.forEach((overlay) => {
+      command.input(overlayPaths[overlay.id]);
+      command.inputOptions([
+        ...(overlay.kind === "image" ? ["-loop 1"] : []),
+        `-t ${overlay.duration.toFixed(3)}`,
+      ]);
+    });
+
+    command.complexFilter([...buildRenderGraph(manifest, captionsPath), ...buildAudioGraph(manifest)]).outputOptions([
+      "-map [vout]",
+      "-map [aout]",
+      `-t ${manifest.audio.duration.toFixed(3)}`,
+      `-r ${manifest.fps}`,
+    ]);
+
+    const rateControl = [
+      `-b:v ${manifest.videoBitrate}`,
+      `-maxrate ${manifest.videoBitrate}`,
+      `-bufsize ${manifest.videoBitrate * 2}`,
+      `-g ${manifest.fps * 2}`,
+    ];
+
+    if (manifest.format === "mp4") {
+      command
+        .videoCodec("libx264")
+        .audioCodec("aac")
+        .audioBitrate("192k")
+        .outputOptions(["-preset veryfast", ...rateControl, "-pix_fmt yuv420p", "-movflags +faststart"])
+        .format("mp4");
+    } else {
+      command
+        .videoCodec("libvpx-vp9")
+        .audioCodec("libopus")
+        .audioBitrate("160k")
+        .outputOptions(["-deadline realtime", "-cpu-used 8", "-row-mt 1", ...rateControl])
+        .format("webm");
+    }
+
+    command
+      .on("error", (error) => {
+        signal?.removeEventListener("abort", abort);
+        reject(signal?.aborted ? new DOMException("Renderização cancelada.", "AbortError") : error);
+      })
+      .on("end", () => {
+        signal?.removeEventListener("abort", abort);
+        resolve();
+      })
+      .save(outputPath);
+  });
+}
@@ -0,0 +1,90 @@
+import { FULL_FRAME, FramingRect } from "@/lib/render/motion";
+
+export const fitModes = ["contain", "cover", "blur-fill", "manual"] as const;
+
+export type FitMode = (typeof fitModes)[number];
+
+export type ClipFit = {
+  mode: FitMode;
+  focalX: number;
+  focalY: number;
+  crop: FramingRect;
+  scale: number;
+  rotation: number;
+};
+
+export const DEFAULT_CLIP_FIT: ClipFit = {
+  mode: "contain",
+  focalX: 0.5,
+  focalY: 0.5,
+  crop: FULL_FRAME,
+  scale: 1,
+  rotation: 0,
+};
+
+export type FitPlacement = {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+};
+
+function containScale(width: number, height: number, frameWidth: number, frameHeight: number) {
+  return Math.min(frameWidth / width, frameHeight / height);
+}
+
+export function coverPlacement(
+  width: number,
+  height: number,
+  frameWidth: number,
+  frameHeight: number,
+  focalX = 0.5,
+  focalY = 0.5,
+): FitPlacement {
+  const scale = Math.max(frameWidth / width, frameHeight / height);
+  const sw = frameWidth / scale;
+  const sh = frameHeight / scale;
+  return {
+    sx: (width - sw) * focalX,
+    sy: (height - sh) * focalY,
+    sw,
+    sh,
+    dx: 0,
+    dy: 0,
+    dw: frameWidth,
+    dh: frameHeight,
+  };
+}
+
+export function fitPlacement(
+  fit: ClipFit,
+  width: number,
+  height: number,
+  frameWidth: number,
+  frameHeight: number,
+): FitPlacement {
+  if (fit.mode === "cover") {
+    return coverPlacement(width, height, frameWidth, frameHeight, fit.focalX, fit.focalY);
+  }
+
+  const crop = fit.mode === "manual" ? fit.crop : FULL_FRAME;
+  const sw = width * crop.width;
+  const sh = height * crop.height;
+  const scale = containScale(sw, sh, frameWidth, frameHeight) * (fit.mode === "manual" ? fit.scale : 1);
+  const dw = sw * scale;
+  const dh = sh * scale;
+  return {
+    sx: width * crop.x,
+    sy: height * crop.y,
+    sw,
+    sh,
+    dx: (frameWidth - dw) / 2,
+    dy: (frameHeight - dh) / 2,
+    dw,
+    dh,
+  };
+}
@@ -0,0 +1,121 @@
+import { z } from "zod";
+
+import { fitModes } from "@/lib/render/fit";
+import { motionEasings } from "@/lib/render/motion";
+import { DEFAULT_TRANSITION_DURATION, transitionIds } from "@/lib/render/transitions";
+
+export const renderFormats = ["mp4", "webm"] as const;
+
+export const renderTransitions = transitionIds;
+
+export const OVERLAY_FADE_SECONDS = 0.4;
+
+const framingRectSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+});
+
+export const clipMotionSchema = z.object({
+  from: framingRectSchema,
+  to: framingRectSchema,
+  easing: z.enum(motionEasings),
+});
+
+export const clipTransitionShape = {
+  transition: z.enum(renderTransitions),
+  transitionDuration: z.number().min(0.1).max(5).optional(),
+  transitionEasing: z.enum(motionEasings).optional(),
+  transitionParams: z.record(z.string(), z.union([z.string(), z.number()])).optional(),
+};
+
+export const clipFitSchema = z.object({
+  mode: z.enum(fitModes),
+  focalX: z.number().min(0).max(1),
+  focalY: z.number().min(0).max(1),
+  crop: framingRectSchema,
+  scale: z.number().min(0.1).max(4),
+  rotation: z.number().min(-180).max(180),
+});
+
+export const renderManifestSchema = z.object({
+  format: z.enum(renderFormats),
+  width: z.number().int().min(144).max(3840),
+  height: z.number().int().min(144).max(3840),
+  fps: z.number().int().min(12).max(60),
+  videoBitrate: z.number().int().min(250_000).max(100_000_000),
+  transitionDuration: z.number().min(0).max(5).default(DEFAULT_TRANSITION_DURATION),
+  audio: z.object({
+    field: z.string(),
+    duration: z.number().positive(),
+  }),
+  media: z
+    .array(
+      z.object({
+        id: z.string(),
+        kind: z.enum(["image", "video"]),
+        field: z.string(),
+      }),
+    )
+    .min(1),
+  timeline: z
+    .array(
+      z.object({
+        id: z.string(),
+        mediaId: z.string(),
+        start: z.number().min(0),
+        duration: z.number().positive(),
+        ...clipTransitionShape,
+        motion: clipMotionSchema.optional(),
+        fit: clipFitSchema.optional(),
+      }),
+    )
+    .min(1),
+  tracks: z
+    .array(
+      z.object({
+        id: z.string(),
+        field: z.string(),
+        start: z.number().min(0),
+        duration: z.number().positive(),
+        volume: z.number().min(0).max(2),
+        loop: z.boolean(),
+        duck: z.boolean().default(false),
+      }),
+    )
+    .default([]),
+  ducking: z
+    .object({
+      thresholdDb: z.number().min(-60).max(0),
+      attackMs: z.number().min(0.01).max(2000),
+      releaseMs: z.number().min(0.01).max(9000),
+      amountDb: z.number().min(0).max(60),
+    })
+    .optional(),
+  captions: z
+    .object({
+      field: z.string(),
+      position: z.enum(["inferior", "superior"]),
+      fontScale: z.number().min(0.5).max(3),
+    })
+    .optional(),
+  overlays: z
+    .array(
+      z.object({
+        id: z.string(),
+        kind: z.enum(["image", "video"]),
+        field: z.string(),
+        start: z.number().min(0),
+        duration: z.number().positive(),
+        x: z.number().min(0).max(1),
+        y: z.number().min(0).max(1),
+        width: z.number().positive().max(1),
+        opacity: z.number().min(0).max(1),
+      }),
+    )
+    .default([]),
+});
+
+export type RenderFormat = (typeof renderFormats)[number];
+export type RenderManifest = z.infer<typeof renderManifestSchema>;
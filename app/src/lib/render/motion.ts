@@ -0,0 +1,108 @@
+export const motionEasings = ["linear", "ease-in", "ease-out", "ease-in-out"] as const;
+
+export const motionPresets = [
+  "zoom-in",
+  "zoom-out",
+  "pan-left",
+  "pan-right",
+  "pan-up",
+  "pan-down",
+] as const;
+
+export type MotionEasing = (typeof motionEasings)[number];
+export type MotionPreset = (typeof motionPresets)[number];
+
+export const motionEasingLabels: Record<MotionEasing, string> = {
+  linear: "Linear",
+  "ease-in": "Acelera",
+  "ease-out": "Desacelera",
+  "ease-in-out": "Suave",
+};
+
+export type FramingRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ClipMotion = {
+  from: FramingRect;
+  to: FramingRect;
+  easing: MotionEasing;
+};
+
+export const FULL_FRAME: FramingRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const MIN_FRAMING_SIZE = 0.4;
+
+const PRESET_ZOOM = 0.8;
+
+export function framingRect(size: number, centerX: number, centerY: number): FramingRect {
+  const clamped = Math.min(1, Math.max(MIN_FRAMING_SIZE, size));
+  const x = Math.min(1 - clamped, Math.max(0, centerX - clamped / 2));
+  const y = Math.min(1 - clamped, Math.max(0, centerY - clamped / 2));
+  return { x, y, width: clamped, height: clamped };
+}
+
+export function presetMotion(preset: MotionPreset, easing: MotionEasing = "ease-in-out"): ClipMotion {
+  const wide = FULL_FRAME;
+  const tight = (centerX: number, centerY: number) => framingRect(PRESET_ZOOM, centerX, centerY);
+  switch (preset) {
+    case "zoom-in":
+      return { from: wide, to: tight(0.5, 0.5), easing };
+    case "zoom-out":
+      return { from: tight(0.5, 0.5), to: wide, easing };
+    case "pan-left":
+      return { from: tight(1, 0.5), to: tight(0, 0.5), easing };
+    case "pan-right":
+      return { from: tight(0, 0.5), to: tight(1, 0.5), easing };
+    case "pan-up":
+      return { from: tight(0.5, 1), to: tight(0.5, 0), easing };
+    case "pan-down":
+      return { from: tight(0.5, 0), to: tight(0.5, 1), easing };
+  }
+}
+
+export function randomMotion(): ClipMotion {
+  return presetMotion(motionPresets[Math.floor(Math.random() * motionPresets.length)]);
+}
+
+export function ease(easing: MotionEasing, progress: number) {
+  const p = Math.min(1, Math.max(0, progress));
+  switch (easing) {
+    case "linear":
+      return p;
+    case "ease-in":
+      return p * p;
+    case "ease-out":
+      return 1 - (1 - p) * (1 - p);
+    case "ease-in-out":
+      return p * p * (3 - 2 * p);
+  }
+}
+
+export function easeExpression(easing: MotionEasing, progress: string) {
+  const p = `(${progress})`;
+  switch (easing) {
+    case "linear":
+      return p;
+    case "ease-in":
+      return `${p}*${p}`;
+    case "ease-out":
+      return `(1-(1-${p})*(1-${p}))`;
+    case "ease-in-out":
+      return `${p}*${p}*(3-2*${p})`;
+  }
+}
+
+export function interpolateFraming({ from, to, easing }: ClipMotion, progress: number): FramingRect {
+  const t = ease(easing, progress);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  return {
+    x: lerp(from.x, to.x),
+    y: lerp(from.y, to.y),
+    width: lerp(from.width, to.width),
+    height: lerp(from.height, to.height),
+  };
+}
@@ -0,0 +1,133 @@
+import { RenderFormat } from "@/lib/render/manifest";
+
+export type ExportPresetId = "hd-720" | "fhd-1080" | "uhd-4k" | "vertical-1080" | "square-1080";
+
+export type ExportPreset = {
+  id: ExportPresetId;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number;
+  format: RenderFormat;
+};
+
+export const exportPresets: ExportPreset[] = [
+  {
+    id: "hd-720",
+    label: "HD 720p",
+    description: "1280×720 • 30fps • WebM 4Mbps",
+    width: 1280,
+    height: 720,
+    fps: 30,
+    videoBitrate: 4_000_000,
+    format: "webm",
+  },
+  {
+    id: "fhd-1080",
+    label: "YouTube 1080p",
+    description: "1920×1080 • 30fps • MP4 8Mbps",
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    videoBitrate: 8_000_000,
+    format: "mp4",
+  },
+  {
+    id: "uhd-4k",
+    label: "4K UHD",
+    description: "3840×2160 • 30fps • MP4 35Mbps",
+    width: 3840,
+    height: 2160,
+    fps: 30,
+    videoBitrate: 35_000_000,
+    format: "mp4",
+  },
+  {
+    id: "vertical-1080",
+    label: "Reels / Shorts",
+    description: "1080×1920 • 30fps • MP4 8Mbps",
+    width: 1080,
+    height: 1920,
+    fps: 30,
+    videoBitrate: 8_000_000,
+    format: "mp4",
+  },
+  {
+    id: "square-1080",
+    label: "Feed quadrado",
+    description: "1080×1080 • 30fps • MP4 6Mbps",
+    width: 1080,
+    height: 1080,
+    fps: 30,
+    videoBitrate: 6_000_000,
+    format: "mp4",
+  },
+];
+
+export const DEFAULT_EXPORT_PRESET_ID: ExportPresetId = "hd-720";
+
+export function getExportPreset(id: ExportPresetId): ExportPreset {
+  return exportPresets.find((preset) => preset.id === id) ?? exportPresets[0];
+}
+
+export type VideoDimensions = {
+  width: number;
+  height: number;
+  fps: number;
+};
+
+type CodecLevel = {
+  id: string;
+  maxFrameSize: number;
+  maxRate: number;
+};
+
+const h264Levels: CodecLevel[] = [
+  { id: "1f", maxFrameSize: 3_600, maxRate: 108_000 },
+  { id: "28", maxFrameSize: 8_192, maxRate: 245_760 },
+  { id: "2a", maxFrameSize: 8_704, maxRate: 522_240 },
+  { id: "32", maxFrameSize: 22_080, maxRate: 589_824 },
+  { id: "33", maxFrameSize: 36_864, maxRate: 983_040 },
+  { id: "34", maxFrameSize: 36_864, maxRate: 2_073_600 },
+];
+
+const vp9Levels: CodecLevel[] = [
+  { id: "31", maxFrameSize: 983_040, maxRate: 36_864_000 },
+  { id: "40", maxFrameSize: 2_228_224, maxRate: 83_558_400 },
+  { id: "41", maxFrameSize: 2_228_224, maxRate: 160_432_128 },
+  { id: "50", maxFrameSize: 8_912_896, maxRate: 311_951_360 },
+  { id: "51", maxFrameSize: 8_912_896, maxRate: 588_251_136 },
+  { id: "52", maxFrameSize: 8_912_896, maxRate: 1_176_502_272 },
+];
+
+function pickLevel(levels: CodecLevel[], frameSize: number, fps: number) {
+  const level = levels.find((item) => frameSize <= item.maxFrameSize && frameSize * fps <= item.maxRate);
+  return (level ?? levels[levels.length - 1]).id;
+}
+
+export function videoCodecString(format: RenderFormat, { width, height, fps }: VideoDimensions): string {
+  if (format === "mp4") {
+    const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+    return `avc1.6400${pickLevel(h264Levels, macroblocks, fps)}`;
+  }
+  return `vp09.00.${pickLevel(vp9Levels, width * height, fps)}.08`;
+}
+
+function recorderMimeTypes(format: RenderFormat, dimensions: VideoDimensions): string[] {
+  if (format === "mp4") {
+    return [`video/mp4;codecs=${videoCodecString("mp4", dimensions)},mp4a.40.2`, "video/mp4"];
+  }
+  return ["video/webm;codecs=vp9,opus", "video/webm"];
+}
+
+export function resolveRecorderMimeType(
+  format: RenderFormat,
+  dimensions: VideoDimensions,
+): { mimeType: string; format: RenderFormat } {
+  const candidates = [...recorderMimeTypes(format, dimensions), ...recorderMimeTypes("webm", dimensions)];
+  const mimeType =
+    candidates.find((candidate) => MediaRecorder.isTypeSupported(candidate)) ?? "video/webm";
+  return { mimeType, format: mimeType.startsWith("video/mp4") ? "mp4" : "webm" };
+}
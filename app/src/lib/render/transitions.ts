@@ -0,0 +1,294 @@
+import { MotionEasing } from "@/lib/render/motion";
+
+export const transitionIds = [
+  "nenhuma",
+  "fade-in",
+  "crossfade",
+  "cine-sweep",
+  "white-flash",
+  "wipe",
+  "slide",
+  "zoom",
+  "blur",
+  "dip",
+] as const;
+
+export type TransitionId = (typeof transitionIds)[number];
+
+export type TransitionParamValue = string | number;
+export type TransitionParams = Record<string, TransitionParamValue>;
+
+export type TransitionParam =
+  | {
+      key: string;
+      label: string;
+      kind: "select";
+      options: { value: string; label: string }[];
+      default: string;
+    }
+  | { key: string; label: string; kind: "color"; default: string }
+  | { key: string; label: string; kind: "number"; min: number; max: number; step: number; default: number };
+
+export type TransitionFrame = {
+  ctx: CanvasRenderingContext2D;
+  progress: number;
+  params: TransitionParams;
+  drawFrom: (alpha?: number) => void;
+  drawTo: (alpha?: number) => void;
+};
+
+export type TransitionSource = { kind: "previous" } | { kind: "color"; color: string };
+
+export type TransitionDefinition = {
+  id: TransitionId;
+  label: string;
+  params: TransitionParam[];
+  source: (params: TransitionParams) => TransitionSource;
+  render: (frame: TransitionFrame) => void;
+  xfade: ((params: TransitionParams, progress: string) => string) | null;
+};
+
+export type ClipTransition = {
+  transition: TransitionId;
+  transitionDuration?: number;
+  transitionEasing?: MotionEasing;
+  transitionParams?: TransitionParams;
+};
+
+export const DEFAULT_TRANSITION_DURATION = 0.6;
+export const TRANSITION_BACKGROUND = "#050814";
+
+const previous = (): TransitionSource => ({ kind: "previous" });
+const solid = (color: string) => (): TransitionSource => ({ kind: "color", color });
+
+const directionParam: TransitionParam = {
+  key: "direction",
+  label: "Direção",
+  kind: "select",
+  options: [
+    { value: "left", label: "←" },
+    { value: "right", label: "→" },
+    { value: "up", label: "↑" },
+    { value: "down", label: "↓" },
+  ],
+  default: "left",
+};
+
+const directionVectors: Record<string, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1],
+};
+
+const directionVector = (params: TransitionParams) => directionVectors[String(params.direction)] ?? [-1, 0];
+
+const pixel = (input: "a" | "b", x: string, y: string) =>
+  `if(eq(PLANE,0),${input}0(${x},${y}),if(eq(PLANE,1),${input}1(${x},${y}),if(eq(PLANE,2),${input}2(${x},${y}),${input}3(${x},${y}))))`;
+const mix = (from: string, to: string, progress: string) => `(${from})*(1-${progress})+(${to})*${progress}`;
+const shift = (axis: string, direction: number, size: string, amount: string) =>
+  direction === 0 ? axis : `${axis}${direction < 0 ? "-" : "+"}${size}*${amount}`;
+
+function hexToYuv(hex: string) {
+  const value = Number.parseInt(hex.replace("#", ""), 16) || 0;
+  const r = ((value >> 16) & 255) / 255;
+  const g = ((value >> 8) & 255) / 255;
+  const b = (value & 255) / 255;
+  return {
+    y: 16 + 65.481 * r + 128.553 * g + 24.966 * b,
+    u: 128 - 37.797 * r - 74.203 * g + 112 * b,
+    v: 128 + 112 * r - 93.786 * g - 18.214 * b,
+  };
+}
+
+export const transitionRegistry: Record<TransitionId, TransitionDefinition> = {
+  nenhuma: {
+    id: "nenhuma",
+    label: "Corte seco",
+    params: [],
+    source: previous,
+    render: ({ drawTo }) => drawTo(),
+    xfade: null,
+  },
+  "fade-in": {
+    id: "fade-in",
+    label: "Fade do preto",
+    params: [],
+    source: solid("#000000"),
+    render: ({ ctx, progress, drawTo }) => {
+      drawTo();
+      ctx.fillStyle = `rgba(0,0,0,${1 - progress})`;
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    },
+    xfade: (_params, progress) => mix("A", "B", progress),
+  },
+  crossfade: {
+    id: "crossfade",
+    label: "Crossfade",
+    params: [],
+    source: previous,
+    render: ({ progress, drawFrom, drawTo }) => {
+      drawFrom(1 - progress);
+      drawTo(progress);
+    },
+    xfade: (_params, progress) => mix("A", "B", progress),
+  },
+  "cine-sweep": {
+    id: "cine-sweep",
+    label: "Cine sweep",
+    params: [],
+    source: solid("#000000"),
+    render: ({ ctx, progress, drawTo }) => {
+      const { width, height } = ctx.canvas;
+      drawTo();
+      ctx.fillStyle = "rgba(0,0,0,0.7)";
+      ctx.fillRect(width * progress, 0, width * (1 - progress), height);
+    },
+    xfade: (_params, progress) => `if(lt(X,W*${progress}),B,A*0.7+B*0.3)`,
+  },
+  "white-flash": {
+    id: "white-flash",
+    label: "Flash branco",
+    params: [],
+    source: solid("#ffffff"),
+    render: ({ ctx, progress, drawTo }) => {
+      drawTo();
+      ctx.fillStyle = `rgba(255,255,255,${Math.max(0, 1 - progress * 2)})`;
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    },
+    xfade: (_params, progress) => `A*max(0,1-2*${progress})+B*(1-max(0,1-2*${progress}))`,
+  },
+  wipe: {
+    id: "wipe",
+    label: "Wipe",
+    params: [directionParam],
+    source: previous,
+    render: ({ ctx, progress, params, drawFrom, drawTo }) => {
+      const { width, height } = ctx.canvas;
+      const [x, y] = directionVector(params);
+      drawFrom();
+      ctx.beginPath();
+      ctx.rect(
+        x < 0 ? width * (1 - progress) : 0,
+        y < 0 ? height * (1 - progress) : 0,
+        x === 0 ? width : width * progress,
+        y === 0 ? height : height * progress,
+      );
+      ctx.clip();
+      drawTo();
+    },
+    xfade: (params, progress) => {
+      const [x, y] = directionVector(params);
+      if (x < 0) return `if(gt(X,W*(1-${progress})),B,A)`;
+      if (x > 0) return `if(lt(X,W*${progress}),B,A)`;
+      if (y < 0) return `if(gt(Y,H*(1-${progress})),B,A)`;
+      return `if(lt(Y,H*${progress}),B,A)`;
+    },
+  },
+  slide: {
+    id: "slide",
+    label: "Slide",
+    params: [directionParam],
+    source: previous,
+    render: ({ ctx, progress, params, drawFrom, drawTo }) => {
+      const { width, height } = ctx.canvas;
+      const [x, y] = directionVector(params);
+      const dx = x * width;
+      const dy = y * height;
+      ctx.save();
+      ctx.translate(dx * progress, dy * progress);
+      drawFrom();
+      ctx.restore();
+      ctx.translate(-dx * (1 - progress), -dy * (1 - progress));
+      drawTo();
+    },
+    xfade: (params, progress) => {
+      const [x, y] = directionVector(params);
+      const toX = shift("X", x, "W", `(1-${progress})`);
+      const toY = shift("Y", y, "H", `(1-${progress})`);
+      const fromX = shift("X", -x, "W", progress);
+      const fromY = shift("Y", -y, "H", progress);
+      return `if(between(${toX},0,W-1)*between(${toY},0,H-1),${pixel("b", toX, toY)},${pixel("a", fromX, fromY)})`;
+    },
+  },
+  zoom: {
+    id: "zoom",
+    label: "Zoom",
+    params: [],
+    source: previous,
+    render: ({ ctx, progress, drawFrom, drawTo }) => {
+      const { width, height } = ctx.canvas;
+      ctx.save();
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(1 + progress, 1 + progress);
+      ctx.translate(-width / 2, -height / 2);
+      drawFrom(1 - progress);
+      ctx.restore();
+      drawTo(progress);
+    },
+    xfade: (_params, progress) => {
+      const x = `(X-W/2)/(1+${progress})+W/2`;
+      const y = `(Y-H/2)/(1+${progress})+H/2`;
+      return mix(pixel("a", x, y), "B", progress);
+    },
+  },
+  blur: {
+    id: "blur",
+    label: "Desfoque",
+    params: [{ key: "strength", label: "Intensidade", kind: "number", min: 0.005, max: 0.05, step: 0.005, default: 0.02 }],
+    source: previous,
+    render: ({ ctx, progress, params, drawFrom, drawTo }) => {
+      const radius = Number(params.strength) * ctx.canvas.width * Math.sin(Math.PI * progress);
+      ctx.filter = `blur(${radius.toFixed(1)}px)`;
+      drawFrom(1 - progress);
+      drawTo(progress);
+    },
+    xfade: (params, progress) => {
+      const radius = `${Number(params.strength)}*W*sin(PI*${progress})`;
+      const taps = [-2, -1, 0, 1, 2].map((tap) => {
+        const x = tap === 0 ? "X" : `X${tap < 0 ? "-" : "+"}${Math.abs(tap)}*${radius}`;
+        return mix(pixel("a", x, "Y"), pixel("b", x, "Y"), progress);
+      });
+      return `(${taps.join("+")})/${taps.length}`;
+    },
+  },
+  dip: {
+    id: "dip",
+    label: "Dip para cor",
+    params: [{ key: "color", label: "Cor", kind: "color", default: "#000000" }],
+    source: previous,
+    render: ({ ctx, progress, params, drawFrom, drawTo }) => {
+      if (progress < 0.5) {
+        drawFrom();
+      } else {
+        drawTo();
+      }
+      ctx.globalAlpha = 1 - Math.abs(progress * 2 - 1);
+      ctx.fillStyle = String(params.color);
+      ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    },
+    xfade: (params, progress) => {
+      const { y, u, v } = hexToYuv(String(params.color));
+      const color = `if(eq(PLANE,0),${y.toFixed(1)},if(eq(PLANE,1),${u.toFixed(1)},${v.toFixed(1)}))`;
+      return `if(lt(${progress},0.5),A+(${color}-A)*2*${progress},B+(${color}-B)*(2-2*${progress}))`;
+    },
+  },
+};
+
+export const transitionList = transitionIds.map((id) => transitionRegistry[id]);
+
+export function getTransition(id: TransitionId): TransitionDefinition {
+  return transitionRegistry[id] ?? transitionRegistry.nenhuma;
+}
+
+export function resolveTransitionParams(clip: ClipTransition): TransitionParams {
+  const definition = getTransition(clip.transition);
+  return Object.fromEntries(
+    definition.params.map((param) => [param.key, clip.transitionParams?.[param.key] ?? param.default]),
+  );
+}
+
+export function transitionSeconds(clip: ClipTransition & { duration: number }, fallback = DEFAULT_TRANSITION_DURATION) {
+  if (clip.transition === "nenhuma") return 0;
+  return Math.min(clip.duration, clip.transitionDuration ?? fallback);
+}
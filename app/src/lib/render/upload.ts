@@ -0,0 +1,99 @@
+import Busboy from "busboy";
+import { createWriteStream } from "fs";
+import { join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { ReadableStream as NodeReadableStream } from "stream/web";
+
+const MAX_UPLOAD_BYTES = Number(process.env.RENDER_MAX_UPLOAD_BYTES ?? 2 * 1024 * 1024 * 1024);
+const MAX_FILE_BYTES = Number(process.env.RENDER_MAX_FILE_BYTES ?? 1024 * 1024 * 1024);
+const MAX_FILES = Number(process.env.RENDER_MAX_FILES ?? 100);
+const MAX_FIELDS = 10;
+const MAX_FIELD_BYTES = 5 * 1024 * 1024;
+
+export type RenderUpload = {
+  fields: Record<string, string>;
+  files: Record<string, string>;
+};
+
+export class UploadLimitError extends Error {}
+
+function formatMegabytes(bytes: number) {
+  return `${Math.round(bytes / 1024 / 1024).toLocaleString("pt-BR")} MB`;
+}
+
+export function receiveRenderUpload(request: Request, dir: string): Promise<RenderUpload> {
+  return new Promise((resolve, reject) => {
+    if (!request.body) {
+      reject(new Error("Nenhum arquivo foi enviado."));
+      return;
+    }
+
+    const tooLarge = `O envio excede o limite total de ${formatMegabytes(MAX_UPLOAD_BYTES)}.`;
+    if (Number(request.headers.get("content-length")) > MAX_UPLOAD_BYTES) {
+      reject(new UploadLimitError(tooLarge));
+      return;
+    }
+
+    let parser: Busboy.Busboy;
+    try {
+      parser = Busboy({
+        headers: { "content-type": request.headers.get("content-type") ?? "" },
+        limits: { fileSize: MAX_FILE_BYTES, files: MAX_FILES, fields: MAX_FIELDS, fieldSize: MAX_FIELD_BYTES },
+      });
+    } catch {
+      reject(new Error("O envio deve ser multipart/form-data."));
+      return;
+    }
+
+    const upload: RenderUpload = { fields: {}, files: {} };
+    const writes: Promise<void>[] = [];
+    const exceed = (message: string) => parser.destroy(new UploadLimitError(message));
+
+    parser.on("field", (name, value, info) => {
+      if (info.valueTruncated) {
+        exceed(`O campo "${name}" excede o limite de ${formatMegabytes(MAX_FIELD_BYTES)}.`);
+        return;
+      }
+      upload.fields[name] = value;
+    });
+    parser.on("file", (name, file) => {
+      const path = join(dir, name.replace(/[^a-zA-Z0-9_-]/g, "_"));
+      upload.files[name] = path;
+      file.on("limit", () => exceed(`O arquivo "${name}" excede o limite de ${formatMegabytes(MAX_FILE_BYTES)}.`));
+      const write = pipeline(file, createWriteStream(path));
+      write.catch(() => undefined);
+      writes.push(write);
+    });
+    parser.on("filesLimit", () => exceed(`O envio excede o limite de ${MAX_FILES} arquivos.`));
+    parser.on("fieldsLimit", () => exceed(`O envio excede o limite de ${MAX_FIELDS} campos.`));
+    parser.on("close", () => {
+      if (parser.errored) {
+        reject(parser.errored);
+        return;
+      }
+      Promise.all(writes).then(() => resolve(upload), reject);
+    });
+
+    let received = 0;
+    pipeline(
+      Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          received += chunk.length;
+          if (received > MAX_UPLOAD_BYTES) throw new UploadLimitError(tooLarge);
+          yield chunk;
+        }
+      },
+      parser,
+    ).catch(reject);
+  });
+}
+
+export function uploadedFile(upload: RenderUpload, field: string, name: string): string {
+  const path = upload.files[field];
+  if (!path) {
+    throw new Error(`Arquivo "${name}" ausente no envio.`);
+  }
+  return path;
+}
@@ -0,0 +1,112 @@
+import { existsSync, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { voiceLibrary } from "@/lib/voices";
+import { TtsProvider } from "@/lib/tts/providers";
+
+let cacheDir: string;
+
+async function loadCache(env: Record<string, string> = {}) {
+  vi.resetModules();
+  vi.stubEnv("TTS_CACHE_DIR", cacheDir);
+  vi.stubEnv("TTS_CACHE", undefined);
+  vi.stubEnv("TTS_CACHE_MAX_BYTES", undefined);
+  Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+  return import("@/lib/tts/cache");
+}
+
+function fakeProvider(): TtsProvider & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    id: "sine",
+    model: "test",
+    calls,
+    isAvailable: () => true,
+    synthesize: async ({ text }) => {
+      calls.push(text);
+      return Buffer.from(`audio:${text}`);
+    },
+  };
+}
+
+beforeEach(async () => {
+  cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "aurora-cache-test-"));
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(cacheDir, { recursive: true, force: true });
+});
+
+describe("cacheKey", () => {
+  it("is stable for equal parts and changes with any part", async () => {
+    const { cacheKey } = await loadCache();
+
+    expect(cacheKey({ text: "a", voice: "rafael" })).toBe(cacheKey({ text: "a", voice: "rafael" }));
+    expect(cacheKey({ text: "a", voice: "rafael" })).not.toBe(cacheKey({ text: "a", voice: "marina" }));
+  });
+});
+
+describe("synthesizeCached", () => {
+  it("reuses chunks whose text only differs in whitespace", async () => {
+    const { synthesizeCached } = await loadCache();
+    const provider = fakeProvider();
+    const request = { voice: voiceLibrary[0], instructions: "" };
+
+    const first = await synthesizeCached(provider, { ...request, text: "Olá  mundo" });
+    const second = await synthesizeCached(provider, { ...request, text: " Olá mundo\n" });
+
+    expect(first.cached).toBe(false);
+    expect(second).toEqual({ audio: first.audio, cached: true });
+    expect(provider.calls).toEqual(["Olá  mundo"]);
+  });
+
+  it("always synthesizes when the cache is disabled", async () => {
+    const { synthesizeCached } = await loadCache({ TTS_CACHE: "off" });
+    const provider = fakeProvider();
+    const request = { text: "Olá", voice: voiceLibrary[0], instructions: "" };
+
+    await synthesizeCached(provider, request);
+    const second = await synthesizeCached(provider, request);
+
+    expect(second.cached).toBe(false);
+    expect(provider.calls).toHaveLength(2);
+  });
+});
+
+describe("eviction", () => {
+  it("removes the least recently used entries once the cache exceeds its size", async () => {
+    const { cachePath, readCache, writeCache } = await loadCache({ TTS_CACHE_MAX_BYTES: "250" });
+    const payload = Buffer.alloc(100);
+    const now = Date.now() / 1000;
+
+    await writeCache("chunks", "aa-oldest", ".wav", payload);
+    await writeCache("chunks", "bb-older", ".wav", payload);
+    await fs.utimes(cachePath("chunks", "aa-oldest", ".wav"), now - 300, now - 300);
+    await fs.utimes(cachePath("chunks", "bb-older", ".wav"), now - 200, now - 200);
+
+    expect(await readCache("chunks", "aa-oldest", ".wav")).toEqual(payload);
+    await writeCache("renders", "cc-newest", ".mp3", payload);
+
+    await vi.waitFor(() => expect(existsSync(cachePath("chunks", "bb-older", ".wav"))).toBe(false));
+    expect(existsSync(cachePath("chunks", "aa-oldest", ".wav"))).toBe(true);
+    expect(existsSync(cachePath("renders", "cc-newest", ".mp3"))).toBe(true);
+  });
+
+  it("commits streamed entries and discards abandoned ones", async () => {
+    const { cachePath, createCacheWriter, readCache } = await loadCache();
+
+    const kept = await createCacheWriter("renders", "dd-kept", ".mp3");
+    kept!.stream.end(Buffer.from("mp3"));
+    await kept!.commit();
+    const dropped = await createCacheWriter("renders", "ee-dropped", ".mp3");
+    dropped!.stream.write(Buffer.from("partial"));
+    await dropped!.discard();
+
+    expect(await readCache("renders", "dd-kept", ".mp3")).toEqual(Buffer.from("mp3"));
+    expect(existsSync(cachePath("renders", "ee-dropped", ".mp3"))).toBe(false);
+    expect(await fs.readdir(path.dirname(cachePath("renders", "ee-dropped", ".mp3")))).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import { createWriteStream, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Writable } from "stream";
+
+import { SynthesisRequest, TtsProvider } from "@/lib/tts/providers";
+
+const CACHE_VERSION = 1;
+const CACHE_DIR = process.env.TTS_CACHE_DIR ?? path.join(os.tmpdir(), "aurora-tts-cache");
+const CACHE_MAX_BYTES = Number(process.env.TTS_CACHE_MAX_BYTES ?? 1024 * 1024 * 1024);
+const CACHE_ENABLED = process.env.TTS_CACHE !== "off" && CACHE_MAX_BYTES > 0;
+
+export type CacheNamespace = "chunks" | "renders";
+
+export type CacheWriter = {
+  stream: Writable;
+  commit: () => Promise<void>;
+  discard: () => Promise<void>;
+};
+
+let evicting: Promise<void> | null = null;
+let evictAgain = false;
+
+export function normalizeCacheText(text: string) {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+export function cacheKey(parts: unknown) {
+  return createHash("sha256")
+    .update(JSON.stringify({ version: CACHE_VERSION, parts }))
+    .digest("hex");
+}
+
+export function cachePath(namespace: CacheNamespace, key: string, extension: string) {
+  return path.join(CACHE_DIR, namespace, key.slice(0, 2), `${key}${extension}`);
+}
+
+export async function readCache(
+  namespace: CacheNamespace,
+  key: string,
+  extension: string,
+): Promise<Buffer | null> {
+  if (!CACHE_ENABLED) return null;
+  const file = cachePath(namespace, key, extension);
+  try {
+    const data = await fs.readFile(file);
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => undefined);
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export async function hasCache(namespace: CacheNamespace, key: string, extension: string) {
+  if (!CACHE_ENABLED) return false;
+  const file = cachePath(namespace, key, extension);
+  try {
+    const now = new Date();
+    await fs.utimes(file, now, now);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function writeCache(
+  namespace: CacheNamespace,
+  key: string,
+  extension: string,
+  data: Buffer | string,
+) {
+  if (!CACHE_ENABLED) return;
+  const file = cachePath(namespace, key, extension);
+  const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+    scheduleEviction();
+  } catch (error) {
+    await fs.rm(temporary, { force: true });
+    console.error("[TTS_CACHE_ERROR]", error);
+  }
+}
+
+export async function createCacheWriter(
+  namespace: CacheNamespace,
+  key: string,
+  extension: string,
+): Promise<CacheWriter | null> {
+  if (!CACHE_ENABLED) return null;
+  const file = cachePath(namespace, key, extension);
+  const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+  } catch (error) {
+    console.error("[TTS_CACHE_ERROR]", error);
+    return null;
+  }
+
+  const stream = createWriteStream(temporary);
+  const finished = new Promise<void>((resolve, reject) => {
+    stream.once("finish", resolve);
+    stream.once("error", reject);
+  });
+  finished.catch(() => undefined);
+
+  return {
+    stream,
+    commit: async () => {
+      try {
+        await finished;
+        await fs.rename(temporary, file);
+        scheduleEviction();
+      } catch (error) {
+        await fs.rm(temporary, { force: true });
+        console.error("[TTS_CACHE_ERROR]", error);
+      }
+    },
+    discard: async () => {
+      stream.destroy();
+      await fs.rm(temporary, { force: true });
+    },
+  };
+}
+
+async function listEntries(directory: string): Promise<{ file: string; size: number; mtimeMs: number }[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+  const nested = await Promise.all(
+    entries.map(async (entry) => {
+      const file = path.join(directory, entry.name);
+      if (entry.isDirectory()) return listEntries(file);
+      if (entry.name.endsWith(".tmp")) return [];
+      const stats = await fs.stat(file).catch(() => null);
+      return stats ? [{ file, size: stats.size, mtimeMs: stats.mtimeMs }] : [];
+    }),
+  );
+  return nested.flat();
+}
+
+async function evict() {
+  const entries = await listEntries(CACHE_DIR);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= CACHE_MAX_BYTES) return;
+
+  entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const entry of entries) {
+    if (total <= CACHE_MAX_BYTES) break;
+    await fs.rm(entry.file, { force: true });
+    total -= entry.size;
+  }
+}
+
+function scheduleEviction() {
+  if (evicting) {
+    evictAgain = true;
+    return;
+  }
+  evicting = evict()
+    .catch((error) => console.error("[TTS_CACHE_ERROR]", error))
+    .finally(() => {
+      evicting = null;
+      if (evictAgain) {
+        evictAgain = false;
+        scheduleEviction();
+      }
+    });
+}
+
+export async function synthesizeCached(
+  provider: TtsProvider,
+  request: SynthesisRequest,
+): Promise<{ audio: Buffer; cached: boolean }> {
+  const key = cacheKey({
+    provider: provider.id,
+    model: provider.model,
+    voice: request.voice.id,
+    instructions: request.instructions,
+    text: normalizeCacheText(request.text),
+  });
+  const cached = await readCache("chunks", key, ".wav");
+  if (cached) return { audio: cached, cached: true };
+
+  const audio = await provider.synthesize(request);
+  await writeCache("chunks", key, ".wav", audio);
+  return { audio, cached: false };
+}
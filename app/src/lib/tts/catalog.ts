@@ -0,0 +1,54 @@
+import { voiceLibrary } from "@/lib/voices";
+import { TtsProviderId, Voice, resolveProvider } from "@/lib/tts/providers";
+
+export type VoiceCatalogEntry = {
+  id: string;
+  label: string;
+  tone: string;
+  description: string;
+  gender: Voice["gender"];
+  defaultEmotion: Voice["defaultEmotion"];
+  language: string;
+  provider: TtsProviderId | null;
+  model: string | null;
+  available: boolean;
+  tags: string[];
+  previewUrl: string;
+};
+
+function voiceTags(voice: Voice, provider: TtsProviderId | null) {
+  const tags = [
+    voice.gender,
+    ...voice.tone
+      .toLowerCase()
+      .split(/[,/•]|\s+e\s+/)
+      .map((tag) => tag.trim()),
+    voice.defaultEmotion,
+    provider,
+  ];
+  return [...new Set(tags.filter((tag): tag is string => Boolean(tag)))];
+}
+
+export function findCatalogVoice(voiceId: string): Voice | undefined {
+  return voiceLibrary.find((voice) => voice.id === voiceId);
+}
+
+export function buildVoiceCatalog(): VoiceCatalogEntry[] {
+  return voiceLibrary.map((voice) => {
+    const provider = resolveProvider(voice);
+    return {
+      id: voice.id,
+      label: voice.label,
+      tone: voice.tone,
+      description: voice.description,
+      gender: voice.gender,
+      defaultEmotion: voice.defaultEmotion,
+      language: "pt-BR",
+      provider: provider?.id ?? null,
+      model: provider?.model ?? null,
+      available: Boolean(provider),
+      tags: voiceTags(voice, provider?.id ?? null),
+      previewUrl: `/api/voices/${encodeURIComponent(voice.id)}/preview`,
+    };
+  });
+}
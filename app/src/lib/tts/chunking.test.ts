@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { mapOrderedWithConcurrency, splitIntoChunks } from "@/lib/tts/chunking";
+
+async function collect<T>(iterator: AsyncGenerator<T>) {
+  const results: T[] = [];
+  for await (const item of iterator) results.push(item);
+  return results;
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("splitIntoChunks", () => {
+  it("keeps short scripts in a single chunk with collapsed whitespace", () => {
+    expect(splitIntoChunks("  Olá,   mundo.\nTudo bem?  ")).toEqual(["Olá, mundo. Tudo bem?"]);
+  });
+
+  it("packs whole paragraphs together until the limit", () => {
+    const chunks = splitIntoChunks("Primeiro parágrafo.\n\nSegundo parágrafo.\n\nTerceiro parágrafo.", 40);
+
+    expect(chunks).toEqual(["Primeiro parágrafo.\n\nSegundo parágrafo.", "Terceiro parágrafo."]);
+  });
+
+  it("breaks long paragraphs at sentence boundaries", () => {
+    const chunks = splitIntoChunks("Uma frase curta. Outra frase aqui! E mais uma? Fim.", 20);
+
+    expect(chunks).toEqual(["Uma frase curta.", "Outra frase aqui!", "E mais uma? Fim."]);
+  });
+
+  it("falls back to word and character boundaries for oversized sentences", () => {
+    const chunks = splitIntoChunks("palavra comprida supercalifragilistico", 10);
+
+    expect(chunks).toEqual(["palavra", "comprida", "supercalif", "ragilistic", "o"]);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(10));
+  });
+
+  it("never loses text across chunks", () => {
+    const text = Array.from({ length: 60 }, (_, index) => `Frase número ${index} do roteiro.`).join(" ");
+    const chunks = splitIntoChunks(text, 120);
+
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(120));
+    expect(chunks.join(" ")).toBe(text);
+  });
+});
+
+describe("mapOrderedWithConcurrency", () => {
+  it("yields results in input order while running tasks concurrently", async () => {
+    const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+    let running = 0;
+    let peak = 0;
+
+    const results = collect(
+      mapOrderedWithConcurrency([0, 1, 2], 2, async (item) => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await gates[item].promise;
+        running -= 1;
+        return item * 10;
+      }),
+    );
+    gates[1].resolve();
+    gates[0].resolve();
+    gates[2].resolve();
+
+    expect(await results).toEqual([0, 10, 20]);
+    expect(peak).toBe(2);
+  });
+
+  it("stops launching work and aborts running tasks after the first failure", async () => {
+    const started: number[] = [];
+    const aborted: number[] = [];
+    const first = deferred<number>();
+
+    const results = collect(
+      mapOrderedWithConcurrency([0, 1, 2, 3], 2, (item, _index, signal) => {
+        started.push(item);
+        if (item === 1) return Promise.reject(new Error("falhou"));
+        signal.addEventListener("abort", () => aborted.push(item));
+        return first.promise;
+      }),
+    );
+
+    await expect(results).rejects.toThrow("falhou");
+    expect(started).toEqual([0, 1]);
+    expect(aborted).toEqual([0]);
+  });
+});
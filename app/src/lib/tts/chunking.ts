@@ -0,0 +1,119 @@
+export const DEFAULT_CHUNK_MAX_CHARACTERS = 3_500;
+
+const SENTENCE_PATTERN = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)\s*/g;
+
+function splitByWords(text: string, maxCharacters: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (word.length > maxCharacters) {
+      if (current) pieces.push(current);
+      for (let i = 0; i < word.length; i += maxCharacters) {
+        pieces.push(word.slice(i, i + maxCharacters));
+      }
+      current = "";
+      continue;
+    }
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxCharacters) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function splitParagraph(paragraph: string, maxCharacters: number): string[] {
+  if (paragraph.length <= maxCharacters) return [paragraph];
+
+  const sentences = paragraph.match(SENTENCE_PATTERN) ?? [paragraph];
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const raw of sentences) {
+    const sentence = raw.trim();
+    if (!sentence) continue;
+    if (sentence.length > maxCharacters) {
+      if (current) pieces.push(current);
+      current = "";
+      pieces.push(...splitByWords(sentence, maxCharacters));
+      continue;
+    }
+    const candidate = current ? `${current} ${sentence}` : sentence;
+    if (candidate.length > maxCharacters) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+export function splitIntoChunks(
+  text: string,
+  maxCharacters = DEFAULT_CHUNK_MAX_CHARACTERS,
+): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of paragraphs) {
+    for (const piece of splitParagraph(paragraph, maxCharacters)) {
+      const candidate = current ? `${current}\n\n${piece}` : piece;
+      if (candidate.length > maxCharacters) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = candidate;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export async function* mapOrderedWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+): AsyncGenerator<R> {
+  const controller = new AbortController();
+  const pending: Promise<R>[] = [];
+  let nextIndex = 0;
+
+  const launch = () => {
+    while (!controller.signal.aborted && nextIndex < items.length && pending.length < Math.max(1, concurrency)) {
+      const task = worker(items[nextIndex], nextIndex, controller.signal);
+      task.catch((error) => controller.abort(error));
+      pending.push(task);
+      nextIndex += 1;
+    }
+  };
+
+  const failed = new Promise<never>((_, reject) =>
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true }),
+  );
+  failed.catch(() => undefined);
+
+  try {
+    launch();
+    while (pending.length) {
+      const result = await Promise.race([pending.shift()!, failed]).catch(() => {
+        throw controller.signal.reason;
+      });
+      launch();
+      yield result;
+    }
+  } finally {
+    controller.abort();
+  }
+}
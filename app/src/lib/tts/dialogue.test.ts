@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { detectSpeakers, normalizeSpeaker, parseDialogue } from "@/lib/tts/dialogue";
+
+describe("parseDialogue", () => {
+  it("maps labelled lines to normalized speakers", () => {
+    const { lines, unassigned } = parseDialogue("Ana: Oi, tudo bem?\nDr. Silva: Tudo ótimo.\nANA: Que bom!");
+
+    expect(unassigned).toBe("");
+    expect(lines).toEqual([
+      { speaker: "ANA", text: "Oi, tudo bem?" },
+      { speaker: "DR. SILVA", text: "Tudo ótimo." },
+      { speaker: "ANA", text: "Que bom!" },
+    ]);
+  });
+
+  it("joins continuation lines to the previous speaker and skips blank lines", () => {
+    const { lines } = parseDialogue("CARLOS: Primeira parte\n\n   segunda parte\r\nANA:\ncontinua aqui");
+
+    expect(lines).toEqual([
+      { speaker: "CARLOS", text: "Primeira parte segunda parte" },
+      { speaker: "ANA", text: "continua aqui" },
+    ]);
+  });
+
+  it("reports text that appears before the first speaker", () => {
+    const { lines, unassigned } = parseDialogue("Cena 1\nno escritório\nANA: Bom dia.");
+
+    expect(unassigned).toBe("Cena 1 no escritório");
+    expect(lines).toEqual([{ speaker: "ANA", text: "Bom dia." }]);
+  });
+
+  it("ignores labels that do not start with an uppercase letter", () => {
+    const { lines, unassigned } = parseDialogue("obs: nota interna\n10: horas");
+
+    expect(lines).toEqual([]);
+    expect(unassigned).toBe("obs: nota interna 10: horas");
+  });
+
+  it("drops speakers without any text", () => {
+    expect(parseDialogue("ANA:\nCARLOS: Oi").lines).toEqual([{ speaker: "CARLOS", text: "Oi" }]);
+  });
+});
+
+describe("detectSpeakers", () => {
+  it("lists each speaker once in order of appearance", () => {
+    expect(detectSpeakers("Bia: a\nLeo: b\nBIA: c")).toEqual(["BIA", "LEO"]);
+  });
+});
+
+describe("normalizeSpeaker", () => {
+  it("uppercases and collapses whitespace", () => {
+    expect(normalizeSpeaker("  dr.   silva ")).toBe("DR. SILVA");
+  });
+});
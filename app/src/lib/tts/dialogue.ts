@@ -0,0 +1,41 @@
+export type DialogueLine = {
+  speaker: string;
+  text: string;
+};
+
+export type DialogueScript = {
+  lines: DialogueLine[];
+  unassigned: string;
+};
+
+const SPEAKER_PATTERN = /^\s*(\p{Lu}[\p{L}\p{N} ._-]{0,31}):\s*(.*)$/u;
+
+export function normalizeSpeaker(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+export function parseDialogue(script: string): DialogueScript {
+  const lines: DialogueLine[] = [];
+  let unassigned = "";
+
+  for (const raw of script.split(/\r?\n/)) {
+    const match = raw.match(SPEAKER_PATTERN);
+    if (match) {
+      lines.push({ speaker: normalizeSpeaker(match[1]), text: match[2].trim() });
+      continue;
+    }
+    const last = lines[lines.length - 1];
+    if (!raw.trim()) continue;
+    if (last) {
+      last.text = last.text ? `${last.text} ${raw.trim()}` : raw.trim();
+    } else {
+      unassigned = unassigned ? `${unassigned} ${raw.trim()}` : raw.trim();
+    }
+  }
+
+  return { lines: lines.filter((line) => line.text), unassigned };
+}
+
+export function detectSpeakers(script: string): string[] {
+  return [...new Set(parseDialogue(script).lines.map((line) => line.speaker))];
+}
@@ -0,0 +1,99 @@
+import { Emotion, emotions } from "@/lib/voices";
+
+export type EmotionProsody = {
+  tempo: number;
+  pitchSemitones: number;
+  gainDb: number;
+  bassDb: number;
+  trebleDb: number;
+};
+
+export type EmotionProfile = {
+  tone: string;
+  pacing: string;
+  emphasis: string;
+  prosody: EmotionProsody;
+};
+
+const neutralProsody: EmotionProsody = {
+  tempo: 1,
+  pitchSemitones: 0,
+  gainDb: 0,
+  bassDb: 0,
+  trebleDb: 0,
+};
+
+const defaultProfile: EmotionProfile = {
+  tone: "Neutro, profissional e natural, como um locutor de estúdio.",
+  pacing: "Ritmo constante e confortável, com pausas curtas entre as frases.",
+  emphasis: "Ênfase leve apenas em palavras-chave.",
+  prosody: neutralProsody,
+};
+
+const emotionProfiles: Record<string, EmotionProfile> = {
+  neutro: defaultProfile,
+  feliz: {
+    tone: "Alegre, caloroso e sorridente, transmitindo entusiasmo genuíno.",
+    pacing: "Ritmo levemente acelerado e fluido.",
+    emphasis: "Destaque positivo em adjetivos e boas notícias.",
+    prosody: { ...neutralProsody, tempo: 1.04, pitchSemitones: 0.6, trebleDb: 1.5 },
+  },
+  animado: {
+    tone: "Energético e vibrante, com alto engajamento.",
+    pacing: "Ritmo rápido, pausas curtas e dinâmicas.",
+    emphasis: "Ênfase forte em verbos de ação e chamadas para ação.",
+    prosody: { ...neutralProsody, tempo: 1.08, pitchSemitones: 1, gainDb: 1.5, trebleDb: 2 },
+  },
+  empolgado: {
+    tone: "Empolgado e contagiante, como um apresentador de lançamento.",
+    pacing: "Ritmo rápido com crescendos ao final das frases.",
+    emphasis: "Ênfase marcada em números, nomes e novidades.",
+    prosody: { ...neutralProsody, tempo: 1.08, pitchSemitones: 1, gainDb: 1.5, trebleDb: 2 },
+  },
+  triste: {
+    tone: "Melancólico, suave e contido.",
+    pacing: "Ritmo lento, com pausas longas e respiradas.",
+    emphasis: "Ênfase discreta, voz mais baixa no fim das frases.",
+    prosody: { ...neutralProsody, tempo: 0.92, pitchSemitones: -0.8, gainDb: -1.5, trebleDb: -2 },
+  },
+  calmo: {
+    tone: "Sereno, acolhedor e tranquilo.",
+    pacing: "Ritmo lento e regular, pausas generosas.",
+    emphasis: "Quase sem ênfase, entonação plana e relaxante.",
+    prosody: { ...neutralProsody, tempo: 0.95, pitchSemitones: -0.3, trebleDb: -1 },
+  },
+  sério: {
+    tone: "Sério, firme e autoritário, como um telejornal.",
+    pacing: "Ritmo moderado e preciso, articulação clara.",
+    emphasis: "Ênfase em fatos, datas e números.",
+    prosody: { ...neutralProsody, tempo: 0.98, pitchSemitones: -0.5, bassDb: 2 },
+  },
+  dramático: {
+    tone: "Dramático e cinematográfico, como um trailer de cinema.",
+    pacing: "Ritmo variável, pausas longas antes de revelações.",
+    emphasis: "Ênfase intensa e teatral em palavras de impacto.",
+    prosody: { ...neutralProsody, tempo: 0.94, pitchSemitones: -1, gainDb: 1, bassDb: 3 },
+  },
+  inspirador: {
+    tone: "Inspirador e motivacional, com convicção.",
+    pacing: "Ritmo moderado que cresce ao longo do parágrafo.",
+    emphasis: "Ênfase em palavras de propósito e conquista.",
+    prosody: { ...neutralProsody, tempo: 1.02, pitchSemitones: 0.4, bassDb: 1, trebleDb: 1 },
+  },
+};
+
+export const emotionIds = emotions.map((item) => item.id) as [Emotion, ...Emotion[]];
+
+export function getEmotionProfile(emotion: Emotion): EmotionProfile {
+  return emotionProfiles[emotion] ?? defaultProfile;
+}
+
+export function buildEmotionInstructions(emotion: Emotion): string {
+  const profile = getEmotionProfile(emotion);
+  return [
+    "Fale em português do Brasil.",
+    `Tom: ${profile.tone}`,
+    `Ritmo: ${profile.pacing}`,
+    `Ênfase: ${profile.emphasis}`,
+  ].join("\n");
+}
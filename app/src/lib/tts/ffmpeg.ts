@@ -0,0 +1,162 @@
+import ffmpeg from "fluent-ffmpeg";
+import ffmpegPath from "ffmpeg-static";
+import { PassThrough, Readable } from "stream";
+
+import { EmotionProsody } from "@/lib/tts/emotions";
+
+if (ffmpegPath) {
+  ffmpeg.setFfmpegPath(ffmpegPath);
+}
+
+export const OUTPUT_SAMPLE_RATE = 44100;
+const BYTES_PER_SAMPLE = 2;
+
+export type SegmentOptions = {
+  speed: number;
+  pitch: number;
+  prosody: EmotionProsody;
+};
+
+export type Mp3Encoder = {
+  output: Readable;
+  write: (pcm: Buffer) => Promise<void>;
+  end: () => void;
+  abort: (error?: Error) => void;
+};
+
+function parseTimemark(timemark: string): number {
+  const [hours, minutes, seconds] = timemark.split(":").map(Number);
+  return (hours || 0) * 3600 + (minutes || 0) * 60 + (seconds || 0);
+}
+
+function splitTempoRatio(ratio: number): number[] {
+  const factors: number[] = [];
+  let rest = ratio;
+  while (rest > 2) {
+    factors.push(2);
+    rest /= 2;
+  }
+  while (rest < 0.5) {
+    factors.push(0.5);
+    rest /= 0.5;
+  }
+  if (Math.abs(rest - 1) > 1e-6) {
+    factors.push(rest);
+  }
+  return factors;
+}
+
+export function buildFilters(speed: number, pitch: number, prosody: EmotionProsody) {
+  const filters: string[] = [];
+  const totalPitch = pitch + prosody.pitchSemitones;
+  const totalSpeed = speed * prosody.tempo;
+  const pitchFactor = Math.pow(2, totalPitch / 12);
+  const baseSampleRate = OUTPUT_SAMPLE_RATE;
+
+  filters.push(`aresample=${baseSampleRate}`);
+
+  if (Math.abs(totalPitch) > 0.01) {
+    filters.push(`asetrate=${baseSampleRate * pitchFactor}`);
+    filters.push(`aresample=${baseSampleRate}`);
+    const correction = splitTempoRatio(1 / pitchFactor);
+    correction.forEach((factor) => filters.push(`atempo=${factor.toFixed(5)}`));
+  }
+
+  if (Math.abs(totalSpeed - 1) > 0.01) {
+    const tempoFactors = splitTempoRatio(totalSpeed);
+    tempoFactors.forEach((factor) => filters.push(`atempo=${factor.toFixed(5)}`));
+  }
+
+  if (Math.abs(prosody.bassDb) > 0.01) {
+    filters.push(`bass=g=${prosody.bassDb.toFixed(2)}`);
+  }
+
+  if (Math.abs(prosody.trebleDb) > 0.01) {
+    filters.push(`treble=g=${prosody.trebleDb.toFixed(2)}`);
+  }
+
+  if (Math.abs(prosody.gainDb) > 0.01) {
+    filters.push(`volume=${prosody.gainDb.toFixed(2)}dB`);
+  }
+
+  return filters;
+}
+
+export function createSilence(seconds: number): Buffer {
+  return Buffer.alloc(Math.round(seconds * OUTPUT_SAMPLE_RATE) * BYTES_PER_SAMPLE);
+}
+
+export async function decodeSegment(
+  wav: Buffer,
+  { speed, pitch, prosody }: SegmentOptions,
+  signal?: AbortSignal,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Síntese cancelada.", "AbortError"));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    const command = ffmpeg(Readable.from(wav))
+      .inputFormat("wav")
+      .audioFilters(buildFilters(speed, pitch, prosody))
+      .audioChannels(1)
+      .format("s16le");
+    const abort = () => command.kill("SIGKILL");
+    signal?.addEventListener("abort", abort, { once: true });
+
+    const fail = (error: Error) => {
+      signal?.removeEventListener("abort", abort);
+      reject(signal?.aborted ? new DOMException("Síntese cancelada.", "AbortError") : error);
+    };
+
+    command.on("error", fail).on("end", () => {
+      signal?.removeEventListener("abort", abort);
+      resolve(Buffer.concat(chunks));
+    });
+
+    const output = command.pipe();
+
+    output.on("data", (chunk) => chunks.push(chunk));
+    output.on("error", fail);
+  });
+}
+
+export function pcmDurationSeconds(pcm: Buffer): number {
+  return pcm.length / BYTES_PER_SAMPLE / OUTPUT_SAMPLE_RATE;
+}
+
+export function createMp3Encoder(onProgress?: (encodedSeconds: number) => void): Mp3Encoder {
+  const input = new PassThrough();
+  const output = new PassThrough();
+
+  const command = ffmpeg(input)
+    .inputFormat("s16le")
+    .inputOptions([`-ar ${OUTPUT_SAMPLE_RATE}`, "-ac 1"])
+    .audioCodec("libmp3lame")
+    .audioBitrate("320k")
+    .format("mp3")
+    .on("progress", (progress: { timemark?: string }) => {
+      if (onProgress && progress.timemark) onProgress(parseTimemark(progress.timemark));
+    })
+    .on("error", (error) => {
+      if (!output.destroyed) output.destroy(error);
+    });
+
+  command.pipe(output, { end: true });
+
+  return {
+    output,
+    write: (pcm) =>
+      new Promise((resolve, reject) => {
+        input.write(pcm, (error) => (error ? reject(error) : resolve()));
+      }),
+    end: () => input.end(),
+    abort: (error) => {
+      command.kill("SIGKILL");
+      input.destroy();
+      if (!output.destroyed) output.destroy(error);
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { EventEmitter } from "events";
+import { Readable } from "stream";
+
+export type TtsJobStatus = "running" | "done" | "error" | "cancelled";
+
+export type SpeechTiming = {
+  text: string;
+  voiceId: string;
+  start: number;
+  end: number;
+  speaker?: string;
+  line?: number;
+};
+
+export type TtsJobEvent =
+  | { type: "chunk"; completed: number; total: number; etaSeconds: number | null }
+  | { type: "encoding"; percent: number }
+  | { type: "done"; durationSeconds: number; timings: SpeechTiming[]; cached: boolean }
+  | { type: "error"; message: string }
+  | { type: "cancelled" };
+
+export type TtsJobMeta = {
+  fileName: string;
+  chunkCount: number;
+  durationEstimateSeconds: number;
+  provider: string;
+};
+
+export type TtsJob = {
+  id: string;
+  meta: TtsJobMeta;
+  status: TtsJobStatus;
+  events: TtsJobEvent[];
+  signal: AbortSignal;
+  emit: (event: TtsJobEvent) => void;
+  subscribe: (listener: (event: TtsJobEvent) => void) => () => void;
+  cancel: () => void;
+  claimOutput: () => Readable | null;
+};
+
+const JOB_TTL_MS = 10 * 60 * 1000;
+const OUTPUT_CLAIM_TIMEOUT_MS = Number(process.env.TTS_OUTPUT_CLAIM_TIMEOUT_MS ?? 60_000);
+
+const globalForJobs = globalThis as unknown as { ttsJobs?: Map<string, TtsJob> };
+const jobs = (globalForJobs.ttsJobs ??= new Map<string, TtsJob>());
+
+function isTerminal(event: TtsJobEvent) {
+  return event.type === "done" || event.type === "error" || event.type === "cancelled";
+}
+
+export function createTtsJob(meta: TtsJobMeta, output: Readable): TtsJob {
+  const emitter = new EventEmitter();
+  const controller = new AbortController();
+  let outputClaimed = false;
+
+  const job: TtsJob = {
+    id: crypto.randomUUID(),
+    meta,
+    status: "running",
+    events: [],
+    signal: controller.signal,
+    emit: (event) => {
+      if (job.status !== "running") return;
+      job.events.push(event);
+      if (isTerminal(event)) {
+        job.status = event.type;
+        setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref?.();
+      }
+      emitter.emit("event", event);
+    },
+    subscribe: (listener) => {
+      emitter.on("event", listener);
+      return () => emitter.off("event", listener);
+    },
+    cancel: () => {
+      if (job.status !== "running") return;
+      controller.abort();
+      job.emit({ type: "cancelled" });
+    },
+    claimOutput: () => {
+      if (outputClaimed) return null;
+      outputClaimed = true;
+      clearTimeout(claimTimeout);
+      return output;
+    },
+  };
+
+  const claimTimeout = setTimeout(() => {
+    outputClaimed = true;
+    job.cancel();
+    output.destroy();
+  }, OUTPUT_CLAIM_TIMEOUT_MS);
+  claimTimeout.unref?.();
+
+  jobs.set(job.id, job);
+  return job;
+}
+
+export function getTtsJob(id: string): TtsJob | undefined {
+  return jobs.get(id);
+}
+
+export function createJobEventStream(job: TtsJob): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream({
+    start(controller) {
+      const send = (event: TtsJobEvent) => {
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (isTerminal(event)) {
+          unsubscribe?.();
+          controller.close();
+        }
+      };
+
+      job.events.forEach(send);
+      if (job.status === "running") {
+        unsubscribe = job.subscribe(send);
+      }
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { parseScriptMarkup, spellOut } from "@/lib/tts/markup";
+
+const defaults = { voiceId: "rafael", emotion: "neutro" as const, speed: 1, pitch: 0 };
+const voices = ["rafael", "marina"];
+
+function parse(script: string) {
+  return parseScriptMarkup(script, defaults, voices);
+}
+
+describe("parseScriptMarkup", () => {
+  it("returns a single speech segment for plain text", () => {
+    const { segments, errors } = parse("Bem-vindo ao estúdio.");
+
+    expect(errors).toEqual([]);
+    expect(segments).toEqual([
+      { kind: "speech", text: "Bem-vindo ao estúdio.", settings: { ...defaults, emphasis: false } },
+    ]);
+  });
+
+  it("turns pause tags into pause segments in seconds", () => {
+    const { segments } = parse("Um [pausa 1,5s] dois [pause 250ms] três");
+
+    expect(segments.map((segment) => (segment.kind === "pause" ? segment.seconds : segment.text))).toEqual([
+      "Um ",
+      1.5,
+      " dois ",
+      0.25,
+      " três",
+    ]);
+  });
+
+  it("switches and restores voice and emotion settings", () => {
+    const { segments, errors } = parse("Olá. [voz: marina][emoção feliz]Oi![/emoção][/voz] Tchau.");
+
+    expect(errors).toEqual([]);
+    expect(segments).toMatchObject([
+      { kind: "speech", text: "Olá. ", settings: { voiceId: "rafael", emotion: "neutro" } },
+      { kind: "speech", text: "Oi!", settings: { voiceId: "marina", emotion: "feliz" } },
+      { kind: "speech", text: " Tchau.", settings: { voiceId: "rafael", emotion: "neutro" } },
+    ]);
+  });
+
+  it("keeps unknown bracketed tags as literal text", () => {
+    const { segments, errors } = parse("Veja a [nota 3] e o [link].");
+
+    expect(errors).toEqual([]);
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ kind: "speech", text: "Veja a [nota 3] e o [link]." });
+  });
+
+  it("spells out the content of soletrar tags", () => {
+    const { segments } = parse("Sigla [soletrar]ABC[/soletrar].");
+
+    expect(segments[0]).toMatchObject({ kind: "speech", text: "Sigla  A. B. C. ." });
+    expect(spellOut("x y")).toBe("x. y.");
+  });
+
+  it("reports invalid values and unbalanced tags with their position", () => {
+    const { errors } = parse("[voz joao]Oi[pausa 20s][/ênfase][ênfase]fim");
+
+    expect(errors.map(({ tag, position }) => ({ tag, position }))).toEqual([
+      { tag: "[voz joao]", position: 0 },
+      { tag: "[pausa 20s]", position: 12 },
+      { tag: "[/ênfase]", position: 23 },
+      { tag: "[ênfase]", position: 32 },
+    ]);
+  });
+
+  it("rejects markup nested inside soletrar", () => {
+    const { errors } = parse("[soletrar]A[pausa 1s]B[/soletrar]");
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain("[soletrar]");
+  });
+});
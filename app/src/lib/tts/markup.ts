@@ -0,0 +1,226 @@
+import { Emotion } from "@/lib/voices";
+import { emotionIds } from "@/lib/tts/emotions";
+
+export type SegmentSettings = {
+  voiceId: string;
+  emotion: Emotion;
+  speed: number;
+  pitch: number;
+  emphasis: boolean;
+};
+
+export type SpeechCue = {
+  speaker: string;
+  line: number;
+};
+
+export type MarkupSegment =
+  | { kind: "speech"; text: string; settings: SegmentSettings; cue?: SpeechCue }
+  | { kind: "pause"; seconds: number };
+
+export type MarkupError = {
+  tag: string;
+  position: number;
+  message: string;
+};
+
+export type ParsedScript = {
+  segments: MarkupSegment[];
+  errors: MarkupError[];
+};
+
+const TAG_PATTERN = /\[(\/?)([a-zA-ZÀ-ÿ-]+)(?:\s*[:\s]\s*([^\]]*))?\]/g;
+const MAX_PAUSE_SECONDS = 10;
+
+const tagAliases: Record<string, string> = {
+  pausa: "pausa",
+  pause: "pausa",
+  voz: "voz",
+  voice: "voz",
+  emoção: "emoção",
+  emocao: "emoção",
+  emotion: "emoção",
+  velocidade: "velocidade",
+  speed: "velocidade",
+  pitch: "pitch",
+  tom: "pitch",
+  ênfase: "ênfase",
+  enfase: "ênfase",
+  emphasis: "ênfase",
+  soletrar: "soletrar",
+  spell: "soletrar",
+};
+
+function parsePause(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:[.,]\d+)?)\s*(ms|s)?$/i);
+  if (!match) return null;
+  const amount = Number(match[1].replace(",", "."));
+  return match[2]?.toLowerCase() === "ms" ? amount / 1000 : amount;
+}
+
+function parseNumber(value: string): number | null {
+  const parsed = Number(value.trim().replace(",", "."));
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+}
+
+export function spellOut(text: string): string {
+  return text
+    .replace(/\s+/g, "")
+    .split("")
+    .join(". ")
+    .concat(".");
+}
+
+export function parseScriptMarkup(
+  script: string,
+  defaults: Omit<SegmentSettings, "emphasis">,
+  knownVoiceIds: string[],
+): ParsedScript {
+  const segments: MarkupSegment[] = [];
+  const errors: MarkupError[] = [];
+  let settings: SegmentSettings = { ...defaults, emphasis: false };
+  let spelling: { position: number; text: string } | null = null;
+  let emphasisOpenedAt: number | null = null;
+  let cursor = 0;
+
+  const pushText = (raw: string) => {
+    if (spelling) {
+      spelling.text += raw;
+      return;
+    }
+    if (!raw.trim()) {
+      const last = segments[segments.length - 1];
+      if (last?.kind === "speech") last.text += raw;
+      return;
+    }
+    const last = segments[segments.length - 1];
+    if (
+      last?.kind === "speech" &&
+      JSON.stringify(last.settings) === JSON.stringify(settings)
+    ) {
+      last.text += raw;
+    } else {
+      segments.push({ kind: "speech", text: raw, settings: { ...settings } });
+    }
+  };
+
+  for (const match of script.matchAll(TAG_PATTERN)) {
+    const [raw, closing, rawName, rawValue = ""] = match;
+    const position = match.index ?? 0;
+    const name = tagAliases[rawName.toLowerCase()];
+    const value = rawValue.trim();
+
+    if (!name) continue;
+
+    pushText(script.slice(cursor, position));
+    cursor = position + raw.length;
+
+    const fail = (message: string) => errors.push({ tag: raw, position, message });
+
+    if (closing) {
+      if (name === "soletrar" && spelling) {
+        const spelled = spellOut(spelling.text);
+        spelling = null;
+        pushText(` ${spelled} `);
+      } else if (name === "ênfase" && emphasisOpenedAt !== null) {
+        emphasisOpenedAt = null;
+        settings = { ...settings, emphasis: false };
+      } else if (name === "voz") {
+        settings = { ...settings, voiceId: defaults.voiceId };
+      } else if (name === "emoção") {
+        settings = { ...settings, emotion: defaults.emotion };
+      } else if (name === "velocidade") {
+        settings = { ...settings, speed: defaults.speed };
+      } else if (name === "pitch") {
+        settings = { ...settings, pitch: defaults.pitch };
+      } else {
+        fail(`Fechamento [/${rawName}] sem abertura correspondente.`);
+      }
+      continue;
+    }
+
+    if (spelling && name !== "soletrar") {
+      fail("Marcações não são permitidas dentro de [soletrar].");
+      continue;
+    }
+
+    switch (name) {
+      case "pausa": {
+        const seconds = parsePause(value);
+        if (seconds === null) {
+          fail('Informe a duração da pausa, por exemplo [pausa 1s] ou [pausa 500ms].');
+        } else if (seconds > MAX_PAUSE_SECONDS) {
+          fail(`A pausa máxima é de ${MAX_PAUSE_SECONDS}s.`);
+        } else {
+          segments.push({ kind: "pause", seconds });
+        }
+        break;
+      }
+      case "voz":
+        if (!value) {
+          settings = { ...settings, voiceId: defaults.voiceId };
+        } else if (!knownVoiceIds.includes(value)) {
+          fail(`Voz "${value}" não encontrada.`);
+        } else {
+          settings = { ...settings, voiceId: value };
+        }
+        break;
+      case "emoção":
+        if (!value) {
+          settings = { ...settings, emotion: defaults.emotion };
+        } else if (!(emotionIds as string[]).includes(value)) {
+          fail(`Emoção "${value}" inválida. Use: ${emotionIds.join(", ")}.`);
+        } else {
+          settings = { ...settings, emotion: value as Emotion };
+        }
+        break;
+      case "velocidade": {
+        const speed = value ? parseNumber(value) : defaults.speed;
+        if (speed === null || speed < 0.5 || speed > 2) {
+          fail("A velocidade deve estar entre 0.5 e 2.");
+        } else {
+          settings = { ...settings, speed };
+        }
+        break;
+      }
+      case "pitch": {
+        const pitch = value ? parseNumber(value) : defaults.pitch;
+        if (pitch === null || pitch < -10 || pitch > 10) {
+          fail("O pitch deve estar entre -10 e +10 semitons.");
+        } else {
+          settings = { ...settings, pitch };
+        }
+        break;
+      }
+      case "ênfase":
+        if (emphasisOpenedAt !== null) {
+          fail("[ênfase] já está aberta.");
+        } else {
+          emphasisOpenedAt = position;
+          settings = { ...settings, emphasis: true };
+        }
+        break;
+      case "soletrar":
+        if (spelling) {
+          fail("[soletrar] já está aberto.");
+        } else {
+          spelling = { position, text: "" };
+        }
+        break;
+    }
+  }
+
+  pushText(script.slice(cursor));
+
+  if (spelling) {
+    errors.push({ tag: "[soletrar]", position: spelling.position, message: "[soletrar] não foi fechado." });
+  }
+  if (emphasisOpenedAt !== null) {
+    errors.push({ tag: "[ênfase]", position: emphasisOpenedAt, message: "[ênfase] não foi fechada." });
+  }
+
+  return {
+    segments: segments.filter((segment) => segment.kind === "pause" || segment.text.trim()),
+    errors,
+  };
+}
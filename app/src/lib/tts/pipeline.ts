@@ -0,0 +1,307 @@
+import { createReadStream } from "fs";
+import { PassThrough, pipeline } from "stream";
+
+import { voiceLibrary } from "@/lib/voices";
+import { EmotionProsody, buildEmotionInstructions, getEmotionProfile } from "@/lib/tts/emotions";
+import {
+  cacheKey,
+  cachePath,
+  createCacheWriter,
+  hasCache,
+  normalizeCacheText,
+  readCache,
+  synthesizeCached,
+  writeCache,
+} from "@/lib/tts/cache";
+import { mapOrderedWithConcurrency, splitIntoChunks } from "@/lib/tts/chunking";
+import {
+  Mp3Encoder,
+  createMp3Encoder,
+  createSilence,
+  decodeSegment,
+  pcmDurationSeconds,
+} from "@/lib/tts/ffmpeg";
+import { SpeechTiming, TtsJob, TtsJobMeta, createTtsJob } from "@/lib/tts/jobs";
+import { MarkupSegment, SpeechCue } from "@/lib/tts/markup";
+import { LexiconEntry, applyLexicon, phonemeHints } from "@/lib/tts/pronunciation";
+import { TtsProvider, Voice, resolveProvider } from "@/lib/tts/providers";
+
+const CHUNK_CONCURRENCY = Number(process.env.TTS_CHUNK_CONCURRENCY ?? 4);
+const EMPHASIS_GAIN_DB = 2;
+
+export type SpeechUnit = {
+  kind: "speech";
+  text: string;
+  spokenText: string;
+  voice: Voice;
+  provider: TtsProvider;
+  instructions: string;
+  speed: number;
+  pitch: number;
+  prosody: EmotionProsody;
+  pauseAfterSeconds: number;
+  cue?: SpeechCue;
+};
+
+export type PauseUnit = {
+  kind: "pause";
+  seconds: number;
+};
+
+export type SynthesisUnit = SpeechUnit | PauseUnit;
+
+export type SynthesisPlan =
+  | { ok: true; units: SynthesisUnit[]; estimatedSeconds: number; providers: string[] }
+  | { ok: false; error: string };
+
+export function planSynthesis(
+  segments: MarkupSegment[],
+  chunkPauseSeconds: number,
+  lexicon: LexiconEntry[] = [],
+): SynthesisPlan {
+  const units: SynthesisUnit[] = [];
+  const providers = new Set<string>();
+  let estimatedSeconds = 0;
+
+  for (const segment of segments) {
+    if (segment.kind === "pause") {
+      units.push(segment);
+      estimatedSeconds += segment.seconds;
+      continue;
+    }
+
+    const { voiceId, emotion, speed, pitch, emphasis } = segment.settings;
+    const voice = voiceLibrary.find((item) => item.id === voiceId);
+    if (!voice) {
+      return { ok: false, error: `Voz "${voiceId}" não encontrada.` };
+    }
+
+    const provider = resolveProvider(voice);
+    if (!provider) {
+      return {
+        ok: false,
+        error:
+          "Nenhum provedor de voz disponível. Defina OPENAI_API_KEY ou configure TTS_LOCAL_ENGINE para síntese offline.",
+      };
+    }
+    providers.add(provider.id);
+
+    const profile = getEmotionProfile(emotion);
+    const prosody = emphasis
+      ? { ...profile.prosody, gainDb: profile.prosody.gainDb + EMPHASIS_GAIN_DB }
+      : profile.prosody;
+    const instructions = emphasis
+      ? `${buildEmotionInstructions(emotion)}\nEste trecho deve ser falado com ênfase marcada e intensidade.`
+      : buildEmotionInstructions(emotion);
+    const chunks = splitIntoChunks(segment.text);
+
+    chunks.forEach((chunk, index) => {
+      const hints = phonemeHints(chunk, lexicon);
+      units.push({
+        kind: "speech",
+        text: chunk,
+        spokenText: applyLexicon(chunk, lexicon),
+        voice,
+        provider,
+        instructions: hints ? `${instructions}\n${hints}` : instructions,
+        speed,
+        pitch,
+        prosody,
+        pauseAfterSeconds: index < chunks.length - 1 ? chunkPauseSeconds : 0,
+        cue: segment.cue,
+      });
+    });
+    estimatedSeconds += segment.text.length / 18 / (speed * prosody.tempo);
+    estimatedSeconds += chunkPauseSeconds * Math.max(0, chunks.length - 1);
+  }
+
+  return { ok: true, units, estimatedSeconds: Math.ceil(estimatedSeconds), providers: [...providers] };
+}
+
+type EncodingTarget = {
+  seconds: number;
+  final: boolean;
+};
+
+type RenderResult = {
+  durationSeconds: number;
+  timings: SpeechTiming[];
+};
+
+function renderCacheKey(units: SynthesisUnit[]) {
+  return cacheKey(
+    units.map((unit) =>
+      unit.kind === "pause"
+        ? { pause: unit.seconds }
+        : {
+            text: normalizeCacheText(unit.spokenText),
+            caption: unit.text,
+            voice: unit.voice.id,
+            provider: unit.provider.id,
+            model: unit.provider.model,
+            instructions: unit.instructions,
+            speed: unit.speed,
+            pitch: unit.pitch,
+            prosody: unit.prosody,
+            pauseAfterSeconds: unit.pauseAfterSeconds,
+            cue: unit.cue,
+          },
+    ),
+  );
+}
+
+async function runSynthesisJob(
+  job: TtsJob,
+  encoder: Mp3Encoder,
+  target: EncodingTarget,
+  units: SynthesisUnit[],
+): Promise<RenderResult | null> {
+  const startedAt = Date.now();
+  let completed = 0;
+
+  const rendered = mapOrderedWithConcurrency(units, CHUNK_CONCURRENCY, async (unit, _index, failed) => {
+    const signal = AbortSignal.any([job.signal, failed]);
+    if (signal.aborted) throw new DOMException("Síntese cancelada.", "AbortError");
+    let pcm: Buffer;
+    let speechSeconds = 0;
+    if (unit.kind === "pause") {
+      pcm = createSilence(unit.seconds);
+    } else {
+      const { audio: wav } = await synthesizeCached(unit.provider, {
+        text: unit.spokenText,
+        voice: unit.voice,
+        instructions: unit.instructions,
+      });
+      const speech = await decodeSegment(
+        wav,
+        { speed: unit.speed, pitch: unit.pitch, prosody: unit.prosody },
+        signal,
+      );
+      speechSeconds = pcmDurationSeconds(speech);
+      pcm = Buffer.concat([speech, createSilence(unit.pauseAfterSeconds)]);
+    }
+    completed += 1;
+    const elapsed = (Date.now() - startedAt) / 1000;
+    job.emit({
+      type: "chunk",
+      completed,
+      total: units.length,
+      etaSeconds: completed < units.length ? (elapsed / completed) * (units.length - completed) : 0,
+    });
+    return { unit, pcm, speechSeconds };
+  });
+
+  const timings: SpeechTiming[] = [];
+  let writtenSeconds = 0;
+  for await (const { unit, pcm, speechSeconds } of rendered) {
+    if (job.signal.aborted) return null;
+    await encoder.write(pcm);
+    if (unit.kind === "speech") {
+      timings.push({
+        text: unit.text,
+        voiceId: unit.voice.id,
+        start: writtenSeconds,
+        end: writtenSeconds + speechSeconds,
+        ...unit.cue,
+      });
+    }
+    writtenSeconds += pcmDurationSeconds(pcm);
+  }
+
+  target.seconds = writtenSeconds;
+  target.final = true;
+  encoder.end();
+  await new Promise<void>((resolve, reject) => {
+    encoder.output.once("end", resolve);
+    encoder.output.once("close", resolve);
+    encoder.output.once("error", reject);
+  });
+  if (job.signal.aborted) return null;
+  job.emit({ type: "done", durationSeconds: writtenSeconds, timings, cached: false });
+  return { durationSeconds: writtenSeconds, timings };
+}
+
+async function replayCachedRender(job: TtsJob, output: PassThrough, key: string, total: number) {
+  const [stored, hasAudio] = await Promise.all([
+    readCache("renders", key, ".json"),
+    hasCache("renders", key, ".mp3"),
+  ]);
+  if (!stored || !hasAudio) return false;
+  if (job.signal.aborted) {
+    output.destroy();
+    return true;
+  }
+
+  const result = JSON.parse(stored.toString("utf8")) as RenderResult;
+  const audio = createReadStream(cachePath("renders", key, ".mp3"));
+  job.signal.addEventListener("abort", () => audio.destroy());
+  pipeline(audio, output, () => undefined);
+
+  job.emit({ type: "chunk", completed: total, total, etaSeconds: 0 });
+  job.emit({ type: "encoding", percent: 100 });
+  job.emit({
+    type: "done",
+    durationSeconds: result.durationSeconds,
+    timings: result.timings,
+    cached: true,
+  });
+  return true;
+}
+
+async function encodeAndCache(
+  job: TtsJob,
+  output: PassThrough,
+  key: string,
+  units: SynthesisUnit[],
+) {
+  const target: EncodingTarget = { seconds: job.meta.durationEstimateSeconds, final: false };
+  let lastPercent = -1;
+
+  const encoder = createMp3Encoder((encodedSeconds) => {
+    if (!target.seconds) return;
+    const ceiling = target.final ? 100 : 99;
+    const percent = Math.min(ceiling, Math.floor((encodedSeconds / target.seconds) * 100));
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      job.emit({ type: "encoding", percent });
+    }
+  });
+  const writer = await createCacheWriter("renders", key, ".mp3");
+
+  pipeline(encoder.output, output, () => undefined);
+  if (writer) encoder.output.pipe(writer.stream);
+  job.signal.addEventListener("abort", () => encoder.abort());
+
+  try {
+    const result = await runSynthesisJob(job, encoder, target, units);
+    if (!result || !writer) {
+      await writer?.discard();
+      return;
+    }
+    await writer.commit();
+    await writeCache("renders", key, ".json", JSON.stringify(result));
+  } catch (error) {
+    await writer?.discard();
+    encoder.abort(error instanceof Error ? error : undefined);
+    throw error;
+  }
+}
+
+export function startSynthesisJob(meta: TtsJobMeta, units: SynthesisUnit[]): TtsJob {
+  const output = new PassThrough();
+  const job = createTtsJob(meta, output);
+  const key = renderCacheKey(units);
+
+  replayCachedRender(job, output, key, units.length)
+    .then((replayed) => (replayed ? undefined : encodeAndCache(job, output, key, units)))
+    .catch((error) => {
+      console.error("[TTS_JOB_ERROR]", error);
+      job.emit({
+        type: "error",
+        message: error instanceof Error ? error.message : "Falha ao processar o áudio.",
+      });
+      if (!output.destroyed) output.destroy(error instanceof Error ? error : undefined);
+    });
+
+  return job;
+}
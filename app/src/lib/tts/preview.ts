@@ -0,0 +1,120 @@
+import { Emotion } from "@/lib/voices";
+import { synthesizeCached } from "@/lib/tts/cache";
+import { buildEmotionInstructions, getEmotionProfile } from "@/lib/tts/emotions";
+import { OUTPUT_SAMPLE_RATE, decodeSegment, pcmDurationSeconds } from "@/lib/tts/ffmpeg";
+import { TtsProvider, Voice, resolveProvider } from "@/lib/tts/providers";
+import { encodeWav } from "@/lib/tts/wav";
+
+export const PREVIEW_TEXT =
+  "Olá! Esta é uma amostra da minha voz, pronta para dar vida ao seu próximo roteiro.";
+
+export type PreviewSettings = {
+  speed: number;
+  pitch: number;
+  emotion: Emotion;
+};
+
+export type PreviewSample = {
+  text: string;
+  hints: string;
+};
+
+type PreviewAudio = {
+  audio: Buffer;
+  durationSeconds: number;
+};
+
+export type PreviewResult = PreviewAudio & {
+  cached: boolean;
+};
+
+const PREVIEW_CACHE_LIMIT = Number(process.env.TTS_PREVIEW_CACHE_LIMIT ?? 128);
+
+const globalForPreviews = globalThis as unknown as { ttsPreviews?: Map<string, Promise<PreviewAudio>> };
+const previews = (globalForPreviews.ttsPreviews ??= new Map<string, Promise<PreviewAudio>>());
+
+export const DEFAULT_PREVIEW_SAMPLE: PreviewSample = { text: PREVIEW_TEXT, hints: "" };
+
+function previewKey(
+  voice: Voice,
+  provider: TtsProvider,
+  { speed, pitch, emotion }: PreviewSettings,
+  sample: PreviewSample,
+) {
+  return [provider.id, provider.model, voice.id, speed, pitch, emotion, sample.text, sample.hints].join("|");
+}
+
+function normalizeSettings(requested: PreviewSettings): PreviewSettings {
+  return {
+    speed: Math.round(requested.speed * 100) / 100,
+    pitch: Math.round(requested.pitch),
+    emotion: requested.emotion,
+  };
+}
+
+export function isPreviewCached(
+  voice: Voice,
+  requested: PreviewSettings,
+  sample: PreviewSample = DEFAULT_PREVIEW_SAMPLE,
+): boolean {
+  const provider = resolveProvider(voice);
+  return Boolean(provider && previews.has(previewKey(voice, provider, normalizeSettings(requested), sample)));
+}
+
+export function getPreview(
+  voice: Voice,
+  requested: PreviewSettings,
+  sample: PreviewSample = DEFAULT_PREVIEW_SAMPLE,
+): Promise<PreviewResult> {
+  const provider = resolveProvider(voice);
+  if (!provider) {
+    return Promise.reject(new Error("Nenhum provedor de voz disponível para esta amostra."));
+  }
+
+  const settings = normalizeSettings(requested);
+  const key = previewKey(voice, provider, settings, sample);
+  const existing = previews.get(key);
+  if (existing) {
+    previews.delete(key);
+    previews.set(key, existing);
+    return existing.then((preview) => ({ ...preview, cached: true }));
+  }
+
+  const pending = synthesizePreview(provider, voice, settings, sample);
+  previews.set(key, pending);
+  pending.catch(() => previews.delete(key));
+  while (previews.size > PREVIEW_CACHE_LIMIT) {
+    const oldest = previews.keys().next().value;
+    if (oldest === undefined) break;
+    previews.delete(oldest);
+  }
+  return pending.then((preview) => ({ ...preview, cached: false }));
+}
+
+async function synthesizePreview(
+  provider: TtsProvider,
+  voice: Voice,
+  settings: PreviewSettings,
+  sample: PreviewSample,
+): Promise<PreviewAudio> {
+  const instructions = buildEmotionInstructions(settings.emotion);
+
+  const { audio: wav } = await synthesizeCached(provider, {
+    text: sample.text,
+    voice,
+    instructions: sample.hints ? `${instructions}\n${sample.hints}` : instructions,
+  });
+  const pcm = await decodeSegment(wav, {
+    speed: settings.speed,
+    pitch: settings.pitch,
+    prosody: getEmotionProfile(settings.emotion).prosody,
+  });
+  const samples = new Int16Array(pcm.length / 2);
+  for (let i = 0; i < samples.length; i += 1) {
+    samples[i] = pcm.readInt16LE(i * 2);
+  }
+  return {
+    audio: encodeWav(samples, { sampleRate: OUTPUT_SAMPLE_RATE, channels: 1 }),
+    durationSeconds: pcmDurationSeconds(pcm),
+  };
+}
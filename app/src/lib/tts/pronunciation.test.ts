@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { LexiconEntry, applyLexicon } from "@/lib/tts/pronunciation";
+
+function entry(term: string, replacement: string, overrides: Partial<LexiconEntry> = {}): LexiconEntry {
+  return {
+    id: term,
+    term,
+    replacement,
+    kind: "respelling",
+    caseSensitive: false,
+    wholeWord: true,
+    ...overrides,
+  };
+}
+
+describe("applyLexicon", () => {
+  it("replaces whole words regardless of case by default", () => {
+    expect(applyLexicon("O SQL e o sql, mas não sqlite.", [entry("sql", "ésse quê éle")])).toBe(
+      "O ésse quê éle e o ésse quê éle, mas não sqlite.",
+    );
+  });
+
+  it("does not rewrite text inserted by an earlier entry", () => {
+    const entries = [entry("API", "a pê i"), entry("pê", "PEH")];
+
+    expect(applyLexicon("A API e o pê.", entries)).toBe("A a pê i e o PEH.");
+  });
+
+  it("prefers the longest term starting at the same position", () => {
+    const entries = [entry("São", "Sã-o"), entry("São Paulo", "Sampa")];
+
+    expect(applyLexicon("Moro em São Paulo, não em São Carlos.", entries)).toBe(
+      "Moro em Sampa, não em Sã-o Carlos.",
+    );
+  });
+
+  it("honours case-sensitive and partial-word entries", () => {
+    const entries = [entry("Rio", "Ri-o", { caseSensitive: true }), entry("ção", "ssão", { wholeWord: false })];
+
+    expect(applyLexicon("Rio e rio com atenção.", entries)).toBe("Ri-o e rio com atenssão.");
+  });
+
+  it("ignores phoneme entries", () => {
+    expect(applyLexicon("Xerox", [entry("Xerox", "ʃeɾɔks", { kind: "phoneme" })])).toBe("Xerox");
+  });
+});
@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+export const lexiconKinds = ["respelling", "phoneme"] as const;
+
+export type LexiconKind = (typeof lexiconKinds)[number];
+
+export const lexiconKindLabels: Record<LexiconKind, string> = {
+  respelling: "Grafia fonética",
+  phoneme: "Fonemas (IPA)",
+};
+
+export const lexiconEntrySchema = z.object({
+  id: z.string(),
+  term: z.string().trim().min(1).max(100),
+  replacement: z.string().trim().min(1).max(200),
+  kind: z.enum(lexiconKinds),
+  caseSensitive: z.boolean(),
+  wholeWord: z.boolean(),
+});
+
+export const lexiconFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.array(lexiconEntrySchema),
+});
+
+export type LexiconEntry = z.infer<typeof lexiconEntrySchema>;
+
+export type LexiconFile = z.infer<typeof lexiconFileSchema>;
+
+export type PronunciationOverride = {
+  term: string;
+  replacement: string;
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function termPattern({ term, caseSensitive, wholeWord }: LexiconEntry) {
+  const escaped = escapeRegExp(term.trim());
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])` : escaped;
+  return new RegExp(source, caseSensitive ? "gu" : "giu");
+}
+
+export function overridesToLexicon(overrides: PronunciationOverride[]): LexiconEntry[] {
+  return overrides.map((override, index) => ({
+    id: `override-${index}`,
+    term: override.term,
+    replacement: override.replacement,
+    kind: "respelling",
+    caseSensitive: false,
+    wholeWord: true,
+  }));
+}
+
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  const matches = entries
+    .filter((entry) => entry.kind === "respelling" && entry.term.trim())
+    .flatMap((entry, order) =>
+      [...text.matchAll(termPattern(entry))].map((match) => ({
+        start: match.index,
+        end: match.index + match[0].length,
+        replacement: entry.replacement,
+        order,
+      })),
+    )
+    .sort((a, b) => a.start - b.start || b.end - a.end || a.order - b.order);
+
+  let result = "";
+  let cursor = 0;
+  matches.forEach((match) => {
+    if (match.start < cursor) return;
+    result += text.slice(cursor, match.start) + match.replacement;
+    cursor = match.end;
+  });
+  return result + text.slice(cursor);
+}
+
+export function phonemeHints(text: string, entries: LexiconEntry[]): string {
+  return entries
+    .filter((entry) => entry.kind === "phoneme" && entry.term.trim() && termPattern(entry).test(text))
+    .map((entry) => `Pronuncie "${entry.term.trim()}" exatamente como /${entry.replacement}/.`)
+    .join("\n");
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { voiceLibrary } from "@/lib/voices";
+
+const [voice, otherVoice] = voiceLibrary;
+
+async function loadProviders(env: Record<string, string | undefined>) {
+  vi.resetModules();
+  vi.stubEnv("OPENAI_API_KEY", undefined);
+  vi.stubEnv("TTS_PROVIDER", undefined);
+  vi.stubEnv("TTS_VOICE_PROVIDERS", undefined);
+  vi.stubEnv("TTS_LOCAL_ENGINE", undefined);
+  Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+  return import("@/lib/tts/providers");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("resolveProvider", () => {
+  it("prefers OpenAI when an API key is set", async () => {
+    const { resolveProvider } = await loadProviders({ OPENAI_API_KEY: "sk-test", TTS_LOCAL_ENGINE: "espeak-ng" });
+
+    expect(resolveProvider(voice)?.id).toBe("openai");
+  });
+
+  it("falls back to the local engine without an API key", async () => {
+    const { resolveProvider } = await loadProviders({ TTS_LOCAL_ENGINE: "piper" });
+
+    const provider = resolveProvider(voice);
+    expect(provider?.id).toBe("local");
+    expect(provider?.model).toBe("piper");
+  });
+
+  it("falls back to the sine provider outside production", async () => {
+    const { resolveProvider } = await loadProviders({ NODE_ENV: "development" });
+
+    expect(resolveProvider(voice)?.id).toBe("sine");
+  });
+
+  it("returns null in production when no provider is configured", async () => {
+    const { resolveProvider } = await loadProviders({ NODE_ENV: "production" });
+
+    expect(resolveProvider(voice)).toBeNull();
+  });
+
+  it("uses TTS_PROVIDER when set", async () => {
+    const { resolveProvider } = await loadProviders({ OPENAI_API_KEY: "sk-test", TTS_PROVIDER: "sine" });
+
+    expect(resolveProvider(voice)?.id).toBe("sine");
+  });
+
+  it("does not fall back when the configured provider is unavailable", async () => {
+    const { resolveProvider } = await loadProviders({ TTS_PROVIDER: "openai", NODE_ENV: "development" });
+
+    expect(resolveProvider(voice)).toBeNull();
+  });
+
+  it("applies per-voice overrides from TTS_VOICE_PROVIDERS", async () => {
+    const { resolveProvider } = await loadProviders({
+      OPENAI_API_KEY: "sk-test",
+      TTS_VOICE_PROVIDERS: `${voice.id}:sine, unknown:local, ${otherVoice.id}:invalid`,
+    });
+
+    expect(resolveProvider(voice)?.id).toBe("sine");
+    expect(resolveProvider(otherVoice)?.id).toBe("openai");
+  });
+});
@@ -0,0 +1,41 @@
+import { createLocalProvider } from "@/lib/tts/providers/local";
+import { createOpenAiProvider } from "@/lib/tts/providers/openai";
+import { createSineProvider } from "@/lib/tts/providers/sine";
+import { TtsProvider, TtsProviderId, Voice } from "@/lib/tts/providers/types";
+
+export type { SynthesisRequest, TtsProvider, TtsProviderId, Voice } from "@/lib/tts/providers/types";
+
+const providers: Record<TtsProviderId, TtsProvider> = {
+  openai: createOpenAiProvider(),
+  local: createLocalProvider(),
+  sine: createSineProvider(),
+};
+
+const fallbackOrder: TtsProviderId[] =
+  process.env.NODE_ENV === "production" ? ["openai", "local"] : ["openai", "local", "sine"];
+
+function parseVoiceOverrides(): Record<string, TtsProviderId> {
+  const overrides: Record<string, TtsProviderId> = {};
+  for (const entry of (process.env.TTS_VOICE_PROVIDERS ?? "").split(",")) {
+    const [voiceId, providerId] = entry.split(":").map((part) => part.trim());
+    if (voiceId && providerId && providerId in providers) {
+      overrides[voiceId] = providerId as TtsProviderId;
+    }
+  }
+  return overrides;
+}
+
+const voiceOverrides = parseVoiceOverrides();
+
+export function getProvider(id: TtsProviderId): TtsProvider {
+  return providers[id];
+}
+
+export function resolveProvider(voice: Voice): TtsProvider | null {
+  const preferred = voiceOverrides[voice.id] ?? (process.env.TTS_PROVIDER as TtsProviderId | undefined);
+  if (preferred && preferred in providers) {
+    const provider = providers[preferred];
+    return provider.isAvailable() ? provider : null;
+  }
+  return fallbackOrder.map((id) => providers[id]).find((provider) => provider.isAvailable()) ?? null;
+}
@@ -0,0 +1,69 @@
+import { spawn } from "child_process";
+
+import { SynthesisRequest, TtsProvider, Voice } from "@/lib/tts/providers/types";
+
+type LocalEngine = "espeak-ng" | "piper";
+
+function resolveEngine(): LocalEngine | null {
+  const engine = process.env.TTS_LOCAL_ENGINE;
+  if (engine === "espeak-ng" || engine === "piper") return engine;
+  return null;
+}
+
+function buildArgs(engine: LocalEngine, voice: Voice): string[] {
+  if (engine === "piper") {
+    const model =
+      voice.gender === "feminino"
+        ? process.env.TTS_PIPER_MODEL_FEMALE ?? process.env.TTS_PIPER_MODEL
+        : process.env.TTS_PIPER_MODEL_MALE ?? process.env.TTS_PIPER_MODEL;
+    if (!model) {
+      throw new Error("TTS_PIPER_MODEL não definido para o motor local Piper.");
+    }
+    return ["--model", model, "--output_file", "-"];
+  }
+  const variant = voice.gender === "feminino" ? "f3" : "m3";
+  return ["-v", `pt-br+${variant}`, "--stdin", "--stdout"];
+}
+
+function runEngine(binary: string, args: string[], text: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ["pipe", "pipe", "pipe"] });
+    const output: Buffer[] = [];
+    const errors: Buffer[] = [];
+
+    child.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => errors.push(chunk));
+    child.on("error", (error) => reject(error));
+    child.stdin.on("error", (error) => reject(error));
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        reject(
+          new Error(
+            `Motor de voz local finalizou com código ${code}: ${Buffer.concat(errors).toString().trim()}`,
+          ),
+        );
+      }
+    });
+
+    child.stdin.end(text);
+  });
+}
+
+export function createLocalProvider(): TtsProvider {
+  const engine = resolveEngine();
+
+  return {
+    id: "local",
+    model: engine ?? "local",
+    isAvailable: () => engine !== null,
+    async synthesize({ text, voice }: SynthesisRequest) {
+      if (!engine) {
+        throw new Error("TTS_LOCAL_ENGINE não definido. Use espeak-ng ou piper.");
+      }
+      const binary = process.env.TTS_LOCAL_BINARY ?? engine;
+      return runEngine(binary, buildArgs(engine, voice), text);
+    },
+  };
+}
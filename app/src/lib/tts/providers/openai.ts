@@ -0,0 +1,27 @@
+import OpenAI from "openai";
+
+import { SynthesisRequest, TtsProvider } from "@/lib/tts/providers/types";
+
+const MODEL = "gpt-4o-mini-tts";
+
+export function createOpenAiProvider(): TtsProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    id: "openai",
+    model: MODEL,
+    isAvailable: () => Boolean(process.env.OPENAI_API_KEY),
+    async synthesize({ text, voice, instructions }: SynthesisRequest) {
+      client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      const response = await client.audio.speech.create({
+        model: MODEL,
+        voice: voice.voiceId,
+        input: text,
+        instructions,
+        response_format: "wav",
+        speed: 1,
+      });
+      return Buffer.from(await response.arrayBuffer());
+    },
+  };
+}
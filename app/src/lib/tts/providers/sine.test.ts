@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { voiceLibrary } from "@/lib/voices";
+import { createSineProvider } from "@/lib/tts/providers/sine";
+
+function readWav(buffer: Buffer) {
+  return {
+    riff: buffer.toString("ascii", 0, 4),
+    wave: buffer.toString("ascii", 8, 12),
+    format: buffer.readUInt16LE(20),
+    channels: buffer.readUInt16LE(22),
+    sampleRate: buffer.readUInt32LE(24),
+    bitsPerSample: buffer.readUInt16LE(34),
+    dataSize: buffer.readUInt32LE(40),
+    samples: new Int16Array(buffer.buffer.slice(buffer.byteOffset + 44, buffer.byteOffset + buffer.length)),
+  };
+}
+
+describe("sine provider", () => {
+  const provider = createSineProvider();
+  const [voice, otherVoice] = voiceLibrary;
+
+  it("is always available", () => {
+    expect(provider.isAvailable()).toBe(true);
+  });
+
+  it("returns a 16-bit mono PCM WAV", async () => {
+    const wav = readWav(await provider.synthesize({ text: "Olá mundo", voice, instructions: "" }));
+
+    expect(wav.riff).toBe("RIFF");
+    expect(wav.wave).toBe("WAVE");
+    expect(wav.format).toBe(1);
+    expect(wav.channels).toBe(1);
+    expect(wav.sampleRate).toBe(24_000);
+    expect(wav.bitsPerSample).toBe(16);
+    expect(wav.dataSize).toBe(wav.samples.length * 2);
+  });
+
+  it("scales the duration with the text length", async () => {
+    const short = readWav(await provider.synthesize({ text: "Oi", voice, instructions: "" }));
+    const long = readWav(await provider.synthesize({ text: "Oi ".repeat(40), voice, instructions: "" }));
+
+    expect(short.samples.length).toBe(0.25 * 24_000);
+    expect(long.samples.length).toBeGreaterThan(short.samples.length);
+    expect(long.samples.length / 24_000).toBeCloseTo(120 * 0.055, 2);
+  });
+
+  it("fades in and out and stays below clipping", async () => {
+    const { samples } = readWav(await provider.synthesize({ text: "Teste de áudio", voice, instructions: "" }));
+    const peak = samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+    expect(samples[0]).toBe(0);
+    expect(Math.abs(samples[samples.length - 1])).toBeLessThan(100);
+    expect(peak).toBeGreaterThan(9_000);
+    expect(peak).toBeLessThanOrEqual(Math.round(0.3 * 32767));
+  });
+
+  it("is deterministic per voice and differs between voices", async () => {
+    const request = { text: "Mesma frase", instructions: "" };
+    const first = await provider.synthesize({ ...request, voice });
+    const again = await provider.synthesize({ ...request, voice });
+    const other = await provider.synthesize({ ...request, voice: otherVoice });
+
+    expect(again.equals(first)).toBe(true);
+    expect(other.equals(first)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { encodeWav } from "@/lib/tts/wav";
+import { SynthesisRequest, TtsProvider } from "@/lib/tts/providers/types";
+
+const SAMPLE_RATE = 24_000;
+const SECONDS_PER_CHARACTER = 0.055;
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 1) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+export function createSineProvider(): TtsProvider {
+  return {
+    id: "sine",
+    model: "sine",
+    isAvailable: () => true,
+    async synthesize({ text, voice }: SynthesisRequest) {
+      const duration = Math.max(0.25, text.length * SECONDS_PER_CHARACTER);
+      const frequency = 220 + (hashString(voice.id) % 440);
+      const samples = new Int16Array(Math.round(duration * SAMPLE_RATE));
+      const fadeSamples = Math.min(samples.length / 2, SAMPLE_RATE * 0.01);
+
+      for (let i = 0; i < samples.length; i += 1) {
+        const envelope = Math.min(1, i / fadeSamples, (samples.length - i) / fadeSamples);
+        samples[i] = Math.round(
+          Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3 * 32767,
+        );
+      }
+
+      return encodeWav(samples, { sampleRate: SAMPLE_RATE, channels: 1 });
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { voiceLibrary } from "@/lib/voices";
+
+export type Voice = (typeof voiceLibrary)[number];
+
+export type TtsProviderId = "openai" | "local" | "sine";
+
+export type SynthesisRequest = {
+  text: string;
+  voice: Voice;
+  instructions: string;
+};
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  model: string;
+  isAvailable(): boolean;
+  synthesize(request: SynthesisRequest): Promise<Buffer>;
+}
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { createMemoryUsageStore } from "@/lib/usage/memory";
+import { UsageSnapshot, UsageStore } from "@/lib/usage/types";
+
+const WRITE_DEBOUNCE_MS = 250;
+
+async function readSnapshot(file: string): Promise<UsageSnapshot> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8")) as Partial<UsageSnapshot>;
+    return {
+      records: Array.isArray(parsed.records) ? parsed.records : [],
+      windows: parsed.windows && typeof parsed.windows === "object" ? parsed.windows : {},
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("[USAGE_STORE_ERROR]", error);
+    }
+    return { records: [], windows: {} };
+  }
+}
+
+export function createFileUsageStore(file: string, retentionMs: number): UsageStore {
+  let pending: UsageSnapshot | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = null;
+    const snapshot = pending;
+    pending = null;
+    if (!snapshot) return;
+    const contents = JSON.stringify(snapshot);
+    writing = writing.then(async () => {
+      const temporary = `${file}.${crypto.randomUUID()}.tmp`;
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(temporary, contents);
+        await fs.rename(temporary, file);
+      } catch (error) {
+        await fs.rm(temporary, { force: true });
+        console.error("[USAGE_STORE_ERROR]", error);
+      }
+    });
+  };
+
+  const ready = readSnapshot(file).then((initial) =>
+    createMemoryUsageStore({
+      retentionMs,
+      initial,
+      onChange: (snapshot) => {
+        pending = snapshot;
+        timer ??= setTimeout(flush, WRITE_DEBOUNCE_MS);
+      },
+    }),
+  );
+
+  return {
+    id: "file",
+    consume: async (...args) => (await ready).consume(...args),
+    reserve: async (record, limit, since) => (await ready).reserve(record, limit, since),
+    update: async (id, patch) => (await ready).update(id, patch),
+    list: async (clientId, since) => (await ready).list(clientId, since),
+  };
+}
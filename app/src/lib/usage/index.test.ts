@@ -0,0 +1,179 @@
+import { PassThrough } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createTtsJob } from "@/lib/tts/jobs";
+
+const globals = globalThis as { usageStore?: unknown; usageClientSecret?: string };
+
+async function loadUsage(env: Record<string, string | undefined> = {}) {
+  vi.resetModules();
+  delete globals.usageStore;
+  delete globals.usageClientSecret;
+  vi.stubEnv("USAGE_STORE", undefined);
+  vi.stubEnv("TRUST_PROXY", undefined);
+  vi.stubEnv("USAGE_CLIENT_SECRET", "test-secret");
+  vi.stubEnv("TTS_RATE_LIMIT", "2");
+  vi.stubEnv("TTS_RATE_WINDOW_MS", "1000");
+  vi.stubEnv("TTS_DAILY_CHARACTER_QUOTA", "100");
+  Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value));
+  return import("@/lib/usage");
+}
+
+function usage(characters: number, clientId = "client:a") {
+  return { clientId, characters, voiceId: "rafael", provider: "sine" };
+}
+
+function createJob() {
+  const job = createTtsJob(
+    { fileName: "teste.mp3", chunkCount: 2, durationEstimateSeconds: 1, provider: "sine" },
+    new PassThrough(),
+  );
+  job.claimOutput();
+  return job;
+}
+
+function requestWith(headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost/api/tts", { headers });
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("consumeRateLimit", () => {
+  it("blocks once the window is full and resets after it", async () => {
+    const { consumeRateLimit } = await loadUsage();
+    const now = 1_000_000;
+
+    expect((await consumeRateLimit("client:a", now)).remaining).toBe(1);
+    expect((await consumeRateLimit("client:a", now + 10)).allowed).toBe(true);
+    const blocked = await consumeRateLimit("client:a", now + 20);
+    expect(blocked).toMatchObject({ allowed: false, remaining: 0, resetAt: now + 1000 });
+    expect((await consumeRateLimit("client:b", now + 20)).allowed).toBe(true);
+    expect((await consumeRateLimit("client:a", now + 1000)).allowed).toBe(true);
+  });
+
+  it("keeps render and synthesis windows separate", async () => {
+    const { consumeRateLimit, consumeRenderRateLimit } = await loadUsage({ RENDER_RATE_LIMIT: "1" });
+
+    await consumeRateLimit("client:a", 0);
+    await consumeRateLimit("client:a", 0);
+
+    expect((await consumeRenderRateLimit("client:a", 0)).allowed).toBe(true);
+    expect((await consumeRenderRateLimit("client:a", 0)).allowed).toBe(false);
+  });
+});
+
+describe("reserveDailyQuota", () => {
+  it("denies reservations that would exceed the daily quota", async () => {
+    const { reserveDailyQuota } = await loadUsage();
+    const now = Date.UTC(2026, 0, 10, 12);
+
+    expect(await reserveDailyQuota(usage(60), now)).toMatchObject({ allowed: true, used: 0, remaining: 100 });
+    const denied = await reserveDailyQuota(usage(50), now);
+    expect(denied).toMatchObject({ allowed: false, used: 60, remaining: 40, resetAt: Date.UTC(2026, 0, 11) });
+    expect((await reserveDailyQuota(usage(40), now)).allowed).toBe(true);
+    expect((await reserveDailyQuota(usage(1, "client:b"), now)).allowed).toBe(true);
+  });
+
+  it("starts a fresh quota on the next UTC day", async () => {
+    const { reserveDailyQuota } = await loadUsage();
+
+    await reserveDailyQuota(usage(100), Date.UTC(2026, 0, 10, 23));
+
+    expect((await reserveDailyQuota(usage(100), Date.UTC(2026, 0, 11, 1))).allowed).toBe(true);
+  });
+
+  it("refunds failed, cancelled and cached work", async () => {
+    const { checkDailyQuota, reserveDailyQuota, settleUsage } = await loadUsage();
+
+    const failed = await reserveDailyQuota(usage(30));
+    const cancelled = await reserveDailyQuota(usage(30));
+    const cached = await reserveDailyQuota(usage(30));
+    const done = await reserveDailyQuota(usage(10));
+    await settleUsage(failed, { status: "error" });
+    await settleUsage(cancelled, { status: "cancelled" });
+    await settleUsage(cached, { status: "cached", audioSeconds: 2 });
+    await settleUsage(done, { status: "done", audioSeconds: 1 });
+
+    expect((await checkDailyQuota("client:a", 0)).used).toBe(10);
+  });
+});
+
+describe("trackSynthesisUsage", () => {
+  it("settles the reservation from the job outcome", async () => {
+    const { getUsageStore, reserveDailyQuota, trackSynthesisUsage } = await loadUsage();
+    const done = createJob();
+    const cancelled = createJob();
+    const doneReservation = await reserveDailyQuota(usage(20));
+    const cancelledReservation = await reserveDailyQuota(usage(20));
+
+    trackSynthesisUsage(done, doneReservation);
+    trackSynthesisUsage(cancelled, cancelledReservation);
+    done.emit({ type: "chunk", completed: 1, total: 2, etaSeconds: 1 });
+    done.emit({ type: "done", durationSeconds: 3, timings: [], cached: false });
+    cancelled.emit({ type: "chunk", completed: 1, total: 2, etaSeconds: 1 });
+    cancelled.cancel();
+
+    await vi.waitFor(async () => {
+      const records = await getUsageStore().list("client:a", 0);
+      expect(records.map(({ status, audioSeconds }) => ({ status, audioSeconds }))).toEqual([
+        { status: "done", audioSeconds: 3 },
+        { status: "cancelled", audioSeconds: 0 },
+      ]);
+    });
+  });
+
+  it("logs settlement failures instead of rejecting", async () => {
+    const { getUsageStore, reserveDailyQuota, settleUsage } = await loadUsage();
+    const reservation = await reserveDailyQuota(usage(10));
+    const failure = new Error("disco cheio");
+    vi.spyOn(getUsageStore(), "update").mockRejectedValueOnce(failure);
+    const log = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(settleUsage(reservation, { status: "done" })).resolves.toBeUndefined();
+    expect(log).toHaveBeenCalledWith("[USAGE_STORE_ERROR]", failure);
+    log.mockRestore();
+  });
+});
+
+describe("resolveClient", () => {
+  it("issues a signed id to cookieless requests and accepts it back", async () => {
+    const { persistClient, resolveClient } = await loadUsage();
+
+    const first = resolveClient(requestWith());
+    const other = resolveClient(requestWith());
+    expect(first.issuedToken).toBeTruthy();
+    expect(first.id).not.toBe(other.id);
+
+    const cookie = persistClient(NextResponse.json({}), first).cookies.get("aurora-client");
+    expect(cookie?.value).toBe(first.issuedToken);
+    expect(resolveClient(requestWith({ cookie: `aurora-client=${first.issuedToken}` }))).toEqual({
+      id: first.id,
+      issuedToken: null,
+    });
+  });
+
+  it("rejects unsigned or tampered tokens", async () => {
+    const { resolveClient } = await loadUsage();
+    const { issuedToken } = resolveClient(requestWith());
+    const [, signature] = issuedToken!.split(".");
+
+    for (const token of [crypto.randomUUID(), `${crypto.randomUUID()}.${signature}`]) {
+      const client = resolveClient(requestWith({ cookie: `aurora-client=${token}` }));
+      expect(client.issuedToken).toBeTruthy();
+      expect(client.id).not.toBe(`client:${token.split(".")[0]}`);
+    }
+  });
+
+  it("only trusts forwarded addresses behind a proxy", async () => {
+    const headers = { "x-forwarded-for": "203.0.113.7, 10.0.0.1" };
+
+    const direct = await loadUsage();
+    expect(direct.resolveClient(requestWith(headers)).id).toMatch(/^client:/);
+
+    const proxied = await loadUsage({ TRUST_PROXY: "1" });
+    expect(proxied.resolveClient(requestWith(headers))).toEqual({ id: "ip:203.0.113.7", issuedToken: null });
+  });
+});
@@ -0,0 +1,267 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import os from "os";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+
+import { TtsJob } from "@/lib/tts/jobs";
+import { createFileUsageStore } from "@/lib/usage/file";
+import { createMemoryUsageStore } from "@/lib/usage/memory";
+import { RateLimitResult, UsageRecord, UsageStore, UsageStoreId, isChargedUsage } from "@/lib/usage/types";
+
+export type { RateLimitResult, UsageRecord, UsageStore, UsageStoreId } from "@/lib/usage/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RATE_LIMIT = Number(process.env.TTS_RATE_LIMIT ?? 10);
+export const RATE_WINDOW_MS = Number(process.env.TTS_RATE_WINDOW_MS ?? 60_000);
+export const RENDER_RATE_LIMIT = Number(process.env.RENDER_RATE_LIMIT ?? 5);
+export const RENDER_RATE_WINDOW_MS = Number(process.env.RENDER_RATE_WINDOW_MS ?? 10 * 60_000);
+export const DAILY_CHARACTER_QUOTA = Number(process.env.TTS_DAILY_CHARACTER_QUOTA ?? 200_000);
+const RETENTION_MS = Number(process.env.USAGE_RETENTION_DAYS ?? 90) * DAY_MS;
+const TRUST_PROXY = process.env.TRUST_PROXY === "true" || process.env.TRUST_PROXY === "1";
+const CLIENT_COOKIE = "aurora-client";
+const CLIENT_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+const CLIENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type UsageClient = {
+  id: string;
+  issuedToken: string | null;
+};
+
+export type QuotaResult = {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: number;
+};
+
+export type UsageReservation = QuotaResult & {
+  id: string;
+  characters: number;
+};
+
+export type UsageTotals = {
+  requests: number;
+  characters: number;
+  audioSeconds: number;
+};
+
+export type UsageSummary = {
+  clientId: string;
+  store: UsageStoreId;
+  since: number;
+  rateLimit: { limit: number; windowMs: number };
+  quota: Omit<QuotaResult, "allowed">;
+  totals: UsageTotals;
+  byVoice: (UsageTotals & { voiceId: string })[];
+  byDay: (UsageTotals & { day: string })[];
+  recent: UsageRecord[];
+};
+
+function createUsageStore(): UsageStore {
+  if (process.env.USAGE_STORE === "file") {
+    const file = process.env.USAGE_STORE_FILE ?? path.join(os.tmpdir(), "aurora-usage.json");
+    return createFileUsageStore(file, RETENTION_MS);
+  }
+  return createMemoryUsageStore({ retentionMs: RETENTION_MS });
+}
+
+const globalForUsage = globalThis as unknown as { usageStore?: UsageStore };
+
+export function getUsageStore(): UsageStore {
+  return (globalForUsage.usageStore ??= createUsageStore());
+}
+
+const globalForClients = globalThis as unknown as { usageClientSecret?: string };
+
+function clientSecret() {
+  return (globalForClients.usageClientSecret ??= process.env.USAGE_CLIENT_SECRET || randomBytes(32).toString("hex"));
+}
+
+function signClientId(id: string) {
+  return createHmac("sha256", clientSecret()).update(id).digest("base64url");
+}
+
+function verifyClientToken(token: string): string | null {
+  const [id, signature] = token.split(".");
+  if (!id || !signature || !CLIENT_ID_PATTERN.test(id)) return null;
+  const expected = Buffer.from(signClientId(id));
+  const received = Buffer.from(signature);
+  return received.length === expected.length && timingSafeEqual(received, expected) ? id : null;
+}
+
+export function resolveClient(request: NextRequest): UsageClient {
+  if (TRUST_PROXY) {
+    const forwarded =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || request.headers.get("x-real-ip")?.trim();
+    if (forwarded) return { id: `ip:${forwarded}`, issuedToken: null };
+  }
+
+  const token = request.cookies.get(CLIENT_COOKIE)?.value;
+  const verified = token ? verifyClientToken(token) : null;
+  if (verified) {
+    return { id: `client:${verified}`, issuedToken: null };
+  }
+  const id = randomUUID();
+  return { id: `client:${id}`, issuedToken: `${id}.${signClientId(id)}` };
+}
+
+export function persistClient<T extends NextResponse>(response: T, client: UsageClient): T {
+  if (client.issuedToken) {
+    response.cookies.set(CLIENT_COOKIE, client.issuedToken, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: CLIENT_COOKIE_MAX_AGE,
+    });
+  }
+  return response;
+}
+
+function startOfDay(now: number) {
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+function consumeWindow(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult> {
+  if (limit <= 0) {
+    return Promise.resolve({ allowed: true, limit: 0, remaining: 0, resetAt: now });
+  }
+  return getUsageStore().consume(key, limit, windowMs, now);
+}
+
+export function consumeRateLimit(clientId: string, now = Date.now()): Promise<RateLimitResult> {
+  return consumeWindow(`tts:${clientId}`, RATE_LIMIT, RATE_WINDOW_MS, now);
+}
+
+export function consumeRenderRateLimit(clientId: string, now = Date.now()): Promise<RateLimitResult> {
+  return consumeWindow(`render:${clientId}`, RENDER_RATE_LIMIT, RENDER_RATE_WINDOW_MS, now);
+}
+
+export function rateLimitHeaders(rate: RateLimitResult): Record<string, string> {
+  if (!rate.limit) return {};
+  return {
+    "X-RateLimit-Limit": String(rate.limit),
+    "X-RateLimit-Remaining": String(rate.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(rate.resetAt / 1000)),
+  };
+}
+
+export function retryAfterSeconds(resetAt: number) {
+  return String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)));
+}
+
+function quotaResult(allowed: boolean, used: number, since: number): QuotaResult {
+  const resetAt = since + DAY_MS;
+  if (DAILY_CHARACTER_QUOTA <= 0) {
+    return { allowed: true, limit: 0, used, remaining: 0, resetAt };
+  }
+  return {
+    allowed,
+    limit: DAILY_CHARACTER_QUOTA,
+    used,
+    remaining: Math.max(0, DAILY_CHARACTER_QUOTA - used),
+    resetAt,
+  };
+}
+
+export function quotaStatus({ limit, used, remaining, resetAt }: QuotaResult): UsageSummary["quota"] {
+  return { limit, used, remaining, resetAt };
+}
+
+export async function checkDailyQuota(
+  clientId: string,
+  characters: number,
+  now = Date.now(),
+): Promise<QuotaResult> {
+  const since = startOfDay(now);
+  const records = await getUsageStore().list(clientId, since);
+  const used = records.filter(isChargedUsage).reduce((sum, record) => sum + record.characters, 0);
+  return quotaResult(used + characters <= DAILY_CHARACTER_QUOTA, used, since);
+}
+
+export async function reserveDailyQuota(
+  usage: Pick<UsageRecord, "clientId" | "characters" | "voiceId" | "provider">,
+  now = Date.now(),
+): Promise<UsageReservation> {
+  const since = startOfDay(now);
+  const record: UsageRecord = {
+    ...usage,
+    id: randomUUID(),
+    audioSeconds: 0,
+    status: "pending",
+    createdAt: now,
+  };
+  const { allowed, used } = await getUsageStore().reserve(record, DAILY_CHARACTER_QUOTA, since);
+  return { ...quotaResult(allowed, used, since), id: record.id, characters: usage.characters };
+}
+
+export function settleUsage(
+  reservation: UsageReservation,
+  patch: Partial<Pick<UsageRecord, "audioSeconds" | "status">>,
+): Promise<void> {
+  return getUsageStore()
+    .update(reservation.id, patch)
+    .catch((error) => console.error("[USAGE_STORE_ERROR]", error));
+}
+
+export function trackSynthesisUsage(job: TtsJob, reservation: UsageReservation) {
+  const unsubscribe = job.subscribe((event) => {
+    if (event.type === "done") {
+      settleUsage(reservation, {
+        status: event.cached ? "cached" : "done",
+        audioSeconds: event.durationSeconds,
+      });
+    } else if (event.type === "error" || event.type === "cancelled") {
+      settleUsage(reservation, { status: event.type });
+    } else {
+      return;
+    }
+    unsubscribe();
+  });
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, characters: 0, audioSeconds: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  totals.requests += 1;
+  totals.characters += record.characters;
+  totals.audioSeconds += record.audioSeconds;
+}
+
+export async function summarizeUsage(clientId: string, days: number, now = Date.now()): Promise<UsageSummary> {
+  const since = startOfDay(now) - (days - 1) * DAY_MS;
+  const records = await getUsageStore().list(clientId, since);
+  const quota = await checkDailyQuota(clientId, 0, now);
+
+  const totals = emptyTotals();
+  const byVoice = new Map<string, UsageTotals>();
+  const byDay = new Map<string, UsageTotals>();
+  records.forEach((record) => {
+    addRecord(totals, record);
+    const voice = byVoice.get(record.voiceId) ?? emptyTotals();
+    addRecord(voice, record);
+    byVoice.set(record.voiceId, voice);
+    const dayKey = new Date(record.createdAt).toISOString().slice(0, 10);
+    const day = byDay.get(dayKey) ?? emptyTotals();
+    addRecord(day, record);
+    byDay.set(dayKey, day);
+  });
+
+  return {
+    clientId,
+    store: getUsageStore().id,
+    since,
+    rateLimit: { limit: RATE_LIMIT, windowMs: RATE_WINDOW_MS },
+    quota: quotaStatus(quota),
+    totals,
+    byVoice: [...byVoice].map(([voiceId, voiceTotals]) => ({ voiceId, ...voiceTotals })),
+    byDay: [...byDay].map(([day, dayTotals]) => ({ day, ...dayTotals })),
+    recent: records.sort((a, b) => b.createdAt - a.createdAt).slice(0, 20),
+  };
+}
@@ -0,0 +1,60 @@
+import { UsageSnapshot, UsageStore, isChargedUsage } from "@/lib/usage/types";
+
+export type MemoryUsageStoreOptions = {
+  retentionMs: number;
+  initial?: UsageSnapshot;
+  onChange?: (snapshot: UsageSnapshot) => void;
+};
+
+export function createMemoryUsageStore({
+  retentionMs,
+  initial = { records: [], windows: {} },
+  onChange,
+}: MemoryUsageStoreOptions): UsageStore {
+  const snapshot: UsageSnapshot = { records: [...initial.records], windows: { ...initial.windows } };
+  const changed = () => onChange?.(snapshot);
+
+  return {
+    id: "memory",
+    async consume(key, limit, windowMs, now) {
+      Object.entries(snapshot.windows).forEach(([windowKey, window]) => {
+        if (window.resetAt <= now) delete snapshot.windows[windowKey];
+      });
+      const window = (snapshot.windows[key] ??= { count: 0, resetAt: now + windowMs });
+      const allowed = window.count < limit;
+      if (allowed) window.count += 1;
+      changed();
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetAt: window.resetAt,
+      };
+    },
+    async reserve(record, limit, since) {
+      snapshot.records = snapshot.records.filter(
+        (item) => item.createdAt >= record.createdAt - retentionMs,
+      );
+      const used = snapshot.records
+        .filter((item) => item.clientId === record.clientId && item.createdAt >= since && isChargedUsage(item))
+        .reduce((sum, item) => sum + item.characters, 0);
+      const allowed = limit <= 0 || used + record.characters <= limit;
+      if (allowed) {
+        snapshot.records.push(record);
+        changed();
+      }
+      return { allowed, used };
+    },
+    async update(id, patch) {
+      const record = snapshot.records.find((item) => item.id === id);
+      if (!record) return;
+      Object.assign(record, patch);
+      changed();
+    },
+    async list(clientId, since) {
+      return snapshot.records
+        .filter((record) => record.clientId === clientId && record.createdAt >= since)
+        .map((record) => ({ ...record }));
+    },
+  };
+}
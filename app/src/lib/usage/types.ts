@@ -0,0 +1,48 @@
+export type UsageStoreId = "memory" | "file";
+
+export type UsageStatus = "pending" | "done" | "cached" | "error" | "cancelled";
+
+export type UsageRecord = {
+  id: string;
+  clientId: string;
+  characters: number;
+  audioSeconds: number;
+  voiceId: string;
+  provider: string;
+  status: UsageStatus;
+  createdAt: number;
+};
+
+export type RateWindow = {
+  count: number;
+  resetAt: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
+
+export type QuotaReservation = {
+  allowed: boolean;
+  used: number;
+};
+
+export type UsageSnapshot = {
+  records: UsageRecord[];
+  windows: Record<string, RateWindow>;
+};
+
+export interface UsageStore {
+  id: UsageStoreId;
+  consume(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult>;
+  reserve(record: UsageRecord, limit: number, since: number): Promise<QuotaReservation>;
+  update(id: string, patch: Partial<Pick<UsageRecord, "audioSeconds" | "status">>): Promise<void>;
+  list(clientId: string, since: number): Promise<UsageRecord[]>;
+}
+
+export function isChargedUsage(record: UsageRecord) {
+  return record.status === "pending" || record.status === "done";
+}
@@ -0,0 +1,80 @@
+export const emotions = [
+  { id: "neutro", label: "Neutro" },
+  { id: "feliz", label: "Feliz" },
+  { id: "animado", label: "Animado" },
+  { id: "empolgado", label: "Empolgado" },
+  { id: "triste", label: "Triste" },
+  { id: "calmo", label: "Calmo" },
+  { id: "sério", label: "Sério" },
+  { id: "dramático", label: "Dramático" },
+  { id: "inspirador", label: "Inspirador" },
+] as const;
+
+export type Emotion = (typeof emotions)[number]["id"];
+
+type VoiceDefinition = {
+  id: string;
+  label: string;
+  tone: string;
+  description: string;
+  gender: "masculino" | "feminino";
+  defaultEmotion: Emotion;
+  voiceId: "alloy" | "ash" | "ballad" | "coral" | "echo" | "fable" | "onyx" | "nova" | "sage" | "shimmer" | "verse";
+};
+
+export const voiceLibrary: VoiceDefinition[] = [
+  {
+    id: "rafael",
+    label: "Rafael",
+    tone: "Grave, confiante",
+    description: "Voz masculina encorpada, ideal para narrações institucionais e trailers.",
+    gender: "masculino",
+    defaultEmotion: "sério",
+    voiceId: "onyx",
+  },
+  {
+    id: "lucas",
+    label: "Lucas",
+    tone: "Jovem, enérgico",
+    description: "Voz masculina dinâmica para vídeos curtos, anúncios e redes sociais.",
+    gender: "masculino",
+    defaultEmotion: "animado",
+    voiceId: "echo",
+  },
+  {
+    id: "gabriel",
+    label: "Gabriel",
+    tone: "Calmo e acolhedor",
+    description: "Voz masculina suave para tutoriais, meditações e conteúdos educativos.",
+    gender: "masculino",
+    defaultEmotion: "calmo",
+    voiceId: "ash",
+  },
+  {
+    id: "marina",
+    label: "Marina",
+    tone: "Clara, profissional",
+    description: "Voz feminina versátil para apresentações corporativas e explicativos.",
+    gender: "feminino",
+    defaultEmotion: "neutro",
+    voiceId: "nova",
+  },
+  {
+    id: "julia",
+    label: "Júlia",
+    tone: "Alegre, expressiva",
+    description: "Voz feminina calorosa para publicidade, vlogs e narrativas leves.",
+    gender: "feminino",
+    defaultEmotion: "feliz",
+    voiceId: "shimmer",
+  },
+  {
+    id: "helena",
+    label: "Helena",
+    tone: "Serena e elegante",
+    description: "Voz feminina sofisticada para documentários e histórias inspiradoras.",
+    gender: "feminino",
+    defaultEmotion: "inspirador",
+    voiceId: "coral",
+  },
+];
@@ -1,11 +1,30 @@
 import { create } from "zustand";
 import { Emotion } from "@/lib/voices";
+import { ClipFit } from "@/lib/render/fit";
+import { ClipMotion } from "@/lib/render/motion";
+import { DEFAULT_EXPORT_PRESET_ID, ExportPresetId } from "@/lib/render/presets";
+import { ClipTransition, TransitionId } from "@/lib/render/transitions";
+import { LexiconEntry } from "@/lib/tts/pronunciation";
+import { CaptionCue, CaptionSettings, DEFAULT_CAPTION_SETTINGS } from "@/utils/captions";
+import { DEFAULT_DUCKING_SETTINGS, DuckingSettings } from "@/utils/ducking";
+import { AudioEdit } from "@/utils/narrationEdits";
 
 export type AudioSettings = {
   voiceId: string;
   speed: number;
   pitch: number;
   emotion: Emotion;
+  speakers?: Record<string, string>;
+  presetName?: string;
+};
+
+export type NarrationCue = {
+  text: string;
+  voiceId: string;
+  start: number;
+  end: number;
+  speaker?: string;
+  line?: number;
 };
 
 export type GeneratedAudio = {
@@ -17,6 +36,9 @@ export type GeneratedAudio = {
   durationSeconds: number;
   createdAt: number;
   settings: AudioSettings;
+  cues?: NarrationCue[];
+  captions?: CaptionCue[];
+  edits?: AudioEdit[];
 };
 
 export type MediaKind = "image" | "video";
@@ -31,88 +53,344 @@ export type MediaAsset = {
   previewFrame?: string;
 };
 
-export type TransitionType =
-  | "nenhuma"
-  | "crossfade"
-  | "fade-in"
-  | "cine-sweep"
-  | "white-flash";
+export type TransitionType = TransitionId;
 
-export type TimelineClip = {
+export type TimelineClip = ClipTransition & {
   id: string;
   mediaId: string;
   start: number;
   duration: number;
-  transition: TransitionType;
+  motion?: ClipMotion;
+  fit?: ClipFit;
+};
+
+export type AudioTrackKind = "música" | "efeito";
+
+export type AudioTrackClip = {
+  id: string;
+  kind: AudioTrackKind;
+  name: string;
+  url: string;
+  blob: Blob;
+  start: number;
+  duration: number;
+  sourceDuration: number;
+  volume: number;
+  loop: boolean;
+};
+
+export type OverlayKind = "logo" | "lower-third" | "pip";
+
+export type OverlayClip = {
+  id: string;
+  kind: OverlayKind;
+  mediaId?: string;
+  title?: string;
+  subtitle?: string;
+  start: number;
+  duration: number;
+  x: number;
+  y: number;
+  scale: number;
+  opacity: number;
 };
 
 export type ComposerMode = "simples" | "avançado";
 
+export type ProjectState = {
+  audios: GeneratedAudio[];
+  mediaLibrary: MediaAsset[];
+  timeline: TimelineClip[];
+  audioTracks: AudioTrackClip[];
+  overlays: OverlayClip[];
+  ducking: DuckingSettings;
+  captionSettings: CaptionSettings;
+  lexicon: LexiconEntry[];
+  mode: ComposerMode;
+  exportPresetId: ExportPresetId;
+  activeAudioId: string | null;
+};
+
+export type HistorySnapshot = {
+  audios: GeneratedAudio[];
+  mediaLibrary: MediaAsset[];
+  timeline: TimelineClip[];
+  audioTracks: AudioTrackClip[];
+  overlays: OverlayClip[];
+};
+
+export type HistoryOptions = {
+  coalesceKey?: string;
+};
+
+const HISTORY_LIMIT = 50;
+const HISTORY_COALESCE_MS = 800;
+
+function collectUrls(snapshots: HistorySnapshot[]) {
+  const urls = new Set<string>();
+  snapshots.forEach((snapshot) => {
+    snapshot.audios.forEach((audio) => urls.add(audio.url));
+    snapshot.mediaLibrary.forEach((asset) => urls.add(asset.url));
+    snapshot.audioTracks.forEach((track) => urls.add(track.url));
+  });
+  return urls;
+}
+
+function releaseSnapshots(dropped: HistorySnapshot[], kept: HistorySnapshot[]) {
+  if (dropped.length === 0) return;
+  const live = collectUrls(kept);
+  collectUrls(dropped).forEach((url) => {
+    if (!live.has(url)) URL.revokeObjectURL(url);
+  });
+}
+
+function resolveActiveAudio(audios: GeneratedAudio[], activeAudioId: string | null) {
+  return audios.some((audio) => audio.id === activeAudioId) ? activeAudioId : audios[0]?.id ?? null;
+}
+
 type AppState = {
+  projectId: string | null;
+  projectName: string;
   audios: GeneratedAudio[];
   mediaLibrary: MediaAsset[];
   timeline: TimelineClip[];
+  audioTracks: AudioTrackClip[];
+  overlays: OverlayClip[];
+  ducking: DuckingSettings;
+  captionSettings: CaptionSettings;
+  lexicon: LexiconEntry[];
   mode: ComposerMode;
+  exportPresetId: ExportPresetId;
   activeAudioId: string | null;
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
   addAudio: (audio: GeneratedAudio) => void;
   setActiveAudio: (id: string | null) => void;
   removeAudio: (id: string) => void;
   addMedia: (asset: MediaAsset) => void;
   removeMedia: (id: string) => void;
   updateMediaDuration: (id: string, duration: number) => void;
-  setTimeline: (clips: TimelineClip[]) => void;
+  setTimeline: (clips: TimelineClip[], options?: HistoryOptions) => void;
+  addAudioTrack: (track: AudioTrackClip) => void;
+  updateAudioTrack: (id: string, patch: Partial<AudioTrackClip>, options?: HistoryOptions) => void;
+  removeAudioTrack: (id: string) => void;
+  addOverlay: (overlay: OverlayClip) => void;
+  updateOverlay: (id: string, patch: Partial<OverlayClip>, options?: HistoryOptions) => void;
+  removeOverlay: (id: string) => void;
+  setDucking: (patch: Partial<DuckingSettings>) => void;
+  setCaptions: (audioId: string, captions: CaptionCue[], options?: HistoryOptions) => void;
+  setCaptionSettings: (patch: Partial<CaptionSettings>) => void;
+  setLexicon: (entries: LexiconEntry[]) => void;
+  setAudioEdits: (audioId: string, edits: AudioEdit[], options?: HistoryOptions) => void;
   setMode: (mode: ComposerMode) => void;
+  setExportPreset: (id: ExportPresetId) => void;
+  setProject: (id: string | null, name: string) => void;
+  loadProject: (id: string, name: string, project: ProjectState) => void;
   reset: () => void;
+  undo: () => void;
+  redo: () => void;
 };
 
-export const useAppStore = create<AppState>((set) => ({
-  audios: [],
-  mediaLibrary: [],
-  timeline: [],
-  mode: "simples",
-  activeAudioId: null,
-  addAudio: (audio) =>
-    set((state) => ({
-      audios: [audio, ...state.audios],
-      activeAudioId: audio.id,
-    })),
-  setActiveAudio: (id) => set({ activeAudioId: id }),
-  removeAudio: (id) =>
-    set((state) => {
-      const remaining = state.audios.filter((audio) => audio.id !== id);
-      const nextActive =
-        state.activeAudioId === id ? remaining[0]?.id ?? null : state.activeAudioId;
-      return {
-        audios: remaining,
-        activeAudioId: nextActive,
-      };
-    }),
-  addMedia: (asset) =>
-    set((state) => ({
-      mediaLibrary: [asset, ...state.mediaLibrary],
-    })),
-  removeMedia: (id) =>
-    set((state) => ({
-      mediaLibrary: state.mediaLibrary.filter((asset) => asset.id !== id),
-      timeline: state.timeline.filter((clip) => clip.mediaId !== id),
-    })),
-  updateMediaDuration: (id, duration) =>
-    set((state) => ({
-      mediaLibrary: state.mediaLibrary.map((asset) =>
-        asset.id === id ? { ...asset, duration } : asset,
-      ),
-      timeline: state.timeline.map((clip) =>
-        clip.mediaId === id ? { ...clip, duration } : clip,
-      ),
-    })),
-  setTimeline: (clips) => set({ timeline: clips }),
-  setMode: (mode) => set({ mode }),
-  reset: () =>
-    set({
-      audios: [],
-      mediaLibrary: [],
-      timeline: [],
-      mode: "simples",
-      activeAudioId: null,
-    }),
-}));
+export const useAppStore = create<AppState>((set, get) => {
+  let lastRecord: { key: string; at: number } | null = null;
+
+  const snapshot = (state: AppState): HistorySnapshot => ({
+    audios: state.audios,
+    mediaLibrary: state.mediaLibrary,
+    timeline: state.timeline,
+    audioTracks: state.audioTracks,
+    overlays: state.overlays,
+  });
+
+  const record = (options?: HistoryOptions) => {
+    const state = get();
+    const now = Date.now();
+    const key = options?.coalesceKey;
+    if (key && lastRecord?.key === key && now - lastRecord.at < HISTORY_COALESCE_MS) {
+      lastRecord.at = now;
+      return {};
+    }
+    lastRecord = key ? { key, at: now } : null;
+    const past = [...state.past, snapshot(state)];
+    const evicted = past.splice(0, Math.max(0, past.length - HISTORY_LIMIT));
+    releaseSnapshots([...evicted, ...state.future], [...past, snapshot(state)]);
+    return { past, future: [] };
+  };
+
+  const clearHistory = (next: HistorySnapshot) => {
+    const state = get();
+    lastRecord = null;
+    releaseSnapshots([...state.past, ...state.future, snapshot(state)], [next]);
+    return { past: [], future: [] };
+  };
+
+  return {
+    projectId: null,
+    projectName: "Projeto sem título",
+    audios: [],
+    mediaLibrary: [],
+    timeline: [],
+    audioTracks: [],
+    overlays: [],
+    ducking: DEFAULT_DUCKING_SETTINGS,
+    captionSettings: DEFAULT_CAPTION_SETTINGS,
+    lexicon: [],
+    mode: "simples",
+    exportPresetId: DEFAULT_EXPORT_PRESET_ID,
+    activeAudioId: null,
+    past: [],
+    future: [],
+    addAudio: (audio) =>
+      set((state) => ({
+        ...record(),
+        audios: [audio, ...state.audios],
+        activeAudioId: audio.id,
+      })),
+    setActiveAudio: (id) => set({ activeAudioId: id }),
+    removeAudio: (id) =>
+      set((state) => {
+        const remaining = state.audios.filter((audio) => audio.id !== id);
+        const nextActive =
+          state.activeAudioId === id ? remaining[0]?.id ?? null : state.activeAudioId;
+        return {
+          ...record(),
+          audios: remaining,
+          activeAudioId: nextActive,
+        };
+      }),
+    addMedia: (asset) =>
+      set((state) => ({
+        ...record(),
+        mediaLibrary: [asset, ...state.mediaLibrary],
+      })),
+    removeMedia: (id) =>
+      set((state) => ({
+        ...record(),
+        mediaLibrary: state.mediaLibrary.filter((asset) => asset.id !== id),
+        timeline: state.timeline.filter((clip) => clip.mediaId !== id),
+        overlays: state.overlays.filter((overlay) => overlay.mediaId !== id),
+      })),
+    updateMediaDuration: (id, duration) =>
+      set((state) => {
+        const patch = (entry: HistorySnapshot): HistorySnapshot => ({
+          ...entry,
+          mediaLibrary: entry.mediaLibrary.map((asset) =>
+            asset.id === id ? { ...asset, duration } : asset,
+          ),
+        });
+        return {
+          mediaLibrary: patch(state).mediaLibrary,
+          timeline: state.timeline.map((clip) =>
+            clip.mediaId === id ? { ...clip, duration } : clip,
+          ),
+          past: state.past.map(patch),
+          future: state.future.map(patch),
+        };
+      }),
+    setTimeline: (clips, options) => set(() => ({ ...record(options), timeline: clips })),
+    addAudioTrack: (track) =>
+      set((state) => ({
+        ...record(),
+        audioTracks: [...state.audioTracks, track],
+      })),
+    updateAudioTrack: (id, patch, options) =>
+      set((state) => ({
+        ...record(options),
+        audioTracks: state.audioTracks.map((track) =>
+          track.id === id ? { ...track, ...patch } : track,
+        ),
+      })),
+    removeAudioTrack: (id) =>
+      set((state) => ({
+        ...record(),
+        audioTracks: state.audioTracks.filter((track) => track.id !== id),
+      })),
+    addOverlay: (overlay) =>
+      set((state) => ({
+        ...record(),
+        overlays: [...state.overlays, overlay],
+      })),
+    updateOverlay: (id, patch, options) =>
+      set((state) => ({
+        ...record(options),
+        overlays: state.overlays.map((overlay) =>
+          overlay.id === id ? { ...overlay, ...patch } : overlay,
+        ),
+      })),
+    removeOverlay: (id) =>
+      set((state) => ({
+        ...record(),
+        overlays: state.overlays.filter((overlay) => overlay.id !== id),
+      })),
+    setDucking: (patch) => set((state) => ({ ducking: { ...state.ducking, ...patch } })),
+    setCaptions: (audioId, captions, options) =>
+      set((state) => ({
+        ...record(options),
+        audios: state.audios.map((audio) => (audio.id === audioId ? { ...audio, captions } : audio)),
+      })),
+    setCaptionSettings: (patch) =>
+      set((state) => ({ captionSettings: { ...state.captionSettings, ...patch } })),
+    setLexicon: (entries) => set({ lexicon: entries }),
+    setAudioEdits: (audioId, edits, options) =>
+      set((state) => ({
+        ...record(options),
+        audios: state.audios.map((audio) => (audio.id === audioId ? { ...audio, edits } : audio)),
+      })),
+    setMode: (mode) => set({ mode }),
+    setExportPreset: (id) => set({ exportPresetId: id }),
+    setProject: (id, name) => set({ projectId: id, projectName: name }),
+    loadProject: (id, name, project) =>
+      set(() => ({
+        ...clearHistory(project),
+        ...project,
+        projectId: id,
+        projectName: name,
+      })),
+    reset: () =>
+      set(() => {
+        const empty: HistorySnapshot = {
+          audios: [],
+          mediaLibrary: [],
+          timeline: [],
+          audioTracks: [],
+          overlays: [],
+        };
+        return {
+          ...clearHistory(empty),
+          ...empty,
+          projectId: null,
+          projectName: "Projeto sem título",
+          ducking: DEFAULT_DUCKING_SETTINGS,
+          captionSettings: DEFAULT_CAPTION_SETTINGS,
+          lexicon: [],
+          mode: "simples",
+          exportPresetId: DEFAULT_EXPORT_PRESET_ID,
+          activeAudioId: null,
+        };
+      }),
+    undo: () =>
+      set((state) => {
+        const previous = state.past[state.past.length - 1];
+        if (!previous) return {};
+        lastRecord = null;
+        return {
+          ...previous,
+          activeAudioId: resolveActiveAudio(previous.audios, state.activeAudioId),
+          past: state.past.slice(0, -1),
+          future: [snapshot(state), ...state.future],
+        };
+      }),
+    redo: () =>
+      set((state) => {
+        const [next, ...future] = state.future;
+        if (!next) return {};
+        lastRecord = null;
+        return {
+          ...next,
+          activeAudioId: resolveActiveAudio(next.audios, state.activeAudioId),
+          past: [...state.past, snapshot(state)],
+          future,
+        };
+      }),
+  };
+});
@@ -1,11 +1,101 @@
-export function base64ToBlob(base64: string, mimeType: string): Blob {
-  const byteCharacters = atob(base64);
-  const byteNumbers = new Array(byteCharacters.length);
-  for (let i = 0; i < byteCharacters.length; i += 1) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
+export type StreamingPlayback = {
+  url: string | null;
+  done: Promise<Blob>;
+};
+
+const BACK_BUFFER_SECONDS = 10;
+const QUOTA_RETRY_DELAY_MS = 500;
+const QUOTA_RETRIES = 20;
+
+function waitForUpdate(sourceBuffer: SourceBuffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      sourceBuffer.removeEventListener("updateend", handleUpdateEnd);
+      sourceBuffer.removeEventListener("error", handleError);
+      if (error) reject(error);
+      else resolve();
+    };
+    const handleUpdateEnd = () => settle();
+    const handleError = () => settle(new Error("Falha ao reproduzir o stream."));
+    sourceBuffer.addEventListener("updateend", handleUpdateEnd);
+    sourceBuffer.addEventListener("error", handleError);
+  });
+}
+
+async function evictPlayedAudio(sourceBuffer: SourceBuffer, currentTime: number): Promise<boolean> {
+  const { buffered } = sourceBuffer;
+  if (!buffered.length) return false;
+  const start = buffered.start(0);
+  const end = currentTime - BACK_BUFFER_SECONDS;
+  if (end <= start) return false;
+  sourceBuffer.remove(start, end);
+  await waitForUpdate(sourceBuffer);
+  return true;
+}
+
+async function appendToSourceBuffer(
+  sourceBuffer: SourceBuffer,
+  chunk: Uint8Array<ArrayBuffer>,
+  getCurrentTime: () => number,
+): Promise<void> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      sourceBuffer.appendBuffer(chunk);
+    } catch (error) {
+      const quotaExceeded = error instanceof DOMException && error.name === "QuotaExceededError";
+      if (!quotaExceeded || attempt >= QUOTA_RETRIES) throw error;
+      if (!(await evictPlayedAudio(sourceBuffer, getCurrentTime()))) {
+        await new Promise((resolve) => setTimeout(resolve, QUOTA_RETRY_DELAY_MS));
+      }
+      continue;
+    }
+    return waitForUpdate(sourceBuffer);
   }
-  const byteArray = new Uint8Array(byteNumbers);
-  return new Blob([byteArray], { type: mimeType });
+}
+
+export function createStreamingPlayback(
+  stream: ReadableStream<Uint8Array<ArrayBuffer>>,
+  mimeType: string,
+  getCurrentTime: () => number,
+): StreamingPlayback {
+  const canStream =
+    typeof MediaSource !== "undefined" && MediaSource.isTypeSupported(mimeType);
+  const mediaSource = canStream ? new MediaSource() : null;
+  const url = mediaSource ? URL.createObjectURL(mediaSource) : null;
+
+  const done = (async () => {
+    const parts: Uint8Array[] = [];
+    let sourceBuffer: SourceBuffer | null = null;
+
+    if (mediaSource) {
+      await new Promise((resolve) =>
+        mediaSource.addEventListener("sourceopen", resolve, { once: true }),
+      );
+      sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+    }
+
+    const reader = stream.getReader();
+    for (;;) {
+      const { done: finished, value } = await reader.read();
+      if (finished) break;
+      parts.push(value);
+      if (sourceBuffer) {
+        try {
+          await appendToSourceBuffer(sourceBuffer, value, getCurrentTime);
+        } catch {
+          sourceBuffer = null;
+        }
+      }
+    }
+
+    if (mediaSource?.readyState === "open") {
+      mediaSource.endOfStream();
+    }
+
+    return new Blob(parts as BlobPart[], { type: mimeType });
+  })();
+
+  return { url, done };
 }
 
 export async function getAudioDuration(blob: Blob): Promise<number> {
@@ -0,0 +1,83 @@
+import { AudioTrackClip } from "@/state/useAppStore";
+import { DuckingPlan, applyDucking } from "@/utils/ducking";
+
+export const MIX_SAMPLE_RATE = 48_000;
+
+export async function decodeTrackBuffers(
+  context: BaseAudioContext,
+  tracks: AudioTrackClip[],
+  cache: Map<string, AudioBuffer> = new Map(),
+): Promise<Map<string, AudioBuffer>> {
+  await Promise.all(
+    tracks.map(async (track) => {
+      if (cache.has(track.id)) return;
+      cache.set(track.id, await context.decodeAudioData(await track.blob.arrayBuffer()));
+    }),
+  );
+  return cache;
+}
+
+export function scheduleTracks(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  tracks: AudioTrackClip[],
+  buffers: Map<string, AudioBuffer>,
+  when: number,
+  offset = 0,
+  ducking?: DuckingPlan,
+): AudioBufferSourceNode[] {
+  const sources: AudioBufferSourceNode[] = [];
+  tracks.forEach((track) => {
+    const buffer = buffers.get(track.id);
+    const end = track.start + track.duration;
+    if (!buffer || offset >= end) return;
+
+    const into = Math.max(0, offset - track.start);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = track.loop;
+    const gain = context.createGain();
+    if (ducking && track.kind === "música") {
+      applyDucking(gain.gain, ducking, track.volume, when, offset);
+    } else {
+      gain.gain.value = track.volume;
+    }
+    source.connect(gain).connect(destination);
+
+    const startAt = when + Math.max(0, track.start - offset);
+    const sourceOffset = track.loop ? into % buffer.duration : Math.min(into, buffer.duration);
+    source.start(startAt, sourceOffset, track.duration - into);
+    sources.push(source);
+  });
+  return sources;
+}
+
+export function stopSources(sources: AudioBufferSourceNode[]) {
+  sources.forEach((source) => {
+    source.stop();
+    source.disconnect();
+  });
+}
+
+export async function renderMixdown({
+  narration,
+  tracks,
+  duration,
+  ducking,
+}: {
+  narration: Blob;
+  tracks: AudioTrackClip[];
+  duration: number;
+  ducking?: DuckingPlan;
+}): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(2, Math.ceil(duration * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+  const narrationBuffer = await context.decodeAudioData(await narration.arrayBuffer());
+  const narrationSource = context.createBufferSource();
+  narrationSource.buffer = narrationBuffer;
+  narrationSource.connect(context.destination);
+  narrationSource.start(0);
+
+  const buffers = await decodeTrackBuffers(context, tracks);
+  scheduleTracks(context, context.destination, tracks, buffers, 0, 0, ducking);
+  return context.startRendering();
+}
@@ -0,0 +1,162 @@
+import { NarrationCue } from "@/state/useAppStore";
+
+export type CaptionCue = {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionPosition = "inferior" | "superior";
+
+export type CaptionSettings = {
+  burnIn: boolean;
+  position: CaptionPosition;
+  fontScale: number;
+};
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  burnIn: true,
+  position: "inferior",
+  fontScale: 1,
+};
+
+const MAX_CAPTION_CHARACTERS = 84;
+const MAX_LINE_CHARACTERS = 42;
+const PUNCTUATION_WEIGHT = 4;
+
+function splitPhrases(text: string): string[] {
+  const sentences = text
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(/(?<=[.!?…;:])\s+/)
+    .filter(Boolean);
+
+  return sentences.flatMap((sentence) => {
+    if (sentence.length <= MAX_CAPTION_CHARACTERS) return [sentence];
+    const phrases: string[] = [];
+    let current = "";
+    sentence.split(" ").forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      const breakAtComma = /,$/.test(current) && current.length > MAX_CAPTION_CHARACTERS / 2;
+      if ((candidate.length > MAX_CAPTION_CHARACTERS || breakAtComma) && current) {
+        phrases.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    if (current) phrases.push(current);
+    return phrases;
+  });
+}
+
+function phraseWeight(phrase: string) {
+  return phrase.length + (/[.!?…;:,]$/.test(phrase) ? PUNCTUATION_WEIGHT : 0);
+}
+
+export function buildCaptionCues(narration: NarrationCue[]): CaptionCue[] {
+  return narration.flatMap((cue) => {
+    const phrases = splitPhrases(cue.text);
+    const totalWeight = phrases.reduce((total, phrase) => total + phraseWeight(phrase), 0);
+    const span = cue.end - cue.start;
+    let cursor = cue.start;
+
+    return phrases.map((phrase) => {
+      const start = cursor;
+      cursor += totalWeight > 0 ? (phraseWeight(phrase) / totalWeight) * span : 0;
+      return {
+        id: crypto.randomUUID(),
+        start,
+        end: cursor,
+        text: cue.speaker ? `${cue.speaker}: ${phrase}` : phrase,
+      };
+    });
+  });
+}
+
+export function wrapCaption(text: string, maxLine = MAX_LINE_CHARACTERS): string[] {
+  const lines: string[] = [];
+  let current = "";
+  text.split(/\s+/).forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxLine && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+}
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function sortedCues(cues: CaptionCue[]) {
+  return [...cues].filter((cue) => cue.text.trim() && cue.end > cue.start).sort((a, b) => a.start - b.start);
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return sortedCues(cues)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${wrapCaption(cue.text).join("\n")}\n`,
+    )
+    .join("\n");
+}
+
+export function formatVtt(cues: CaptionCue[]): string {
+  const body = sortedCues(cues)
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${wrapCaption(cue.text).join("\n")}\n`,
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+export function findCaptionAt(cues: CaptionCue[], time: number): CaptionCue | undefined {
+  return cues.find((cue) => time >= cue.start && time < cue.end);
+}
+
+export function drawCaption(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  settings: CaptionSettings,
+) {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const fontSize = Math.round(canvasHeight * 0.042 * settings.fontScale);
+  const lineHeight = fontSize * 1.3;
+  const lines = wrapCaption(text);
+  const margin = canvasHeight * 0.07;
+  const blockHeight = lines.length * lineHeight;
+  const top = settings.position === "superior" ? margin : canvasHeight - margin - blockHeight;
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  lines.forEach((line, index) => {
+    const y = top + index * lineHeight;
+    const textWidth = ctx.measureText(line).width;
+    ctx.fillStyle = "rgba(5,8,20,0.72)";
+    ctx.fillRect(
+      canvasWidth / 2 - textWidth / 2 - fontSize * 0.4,
+      y - fontSize * 0.12,
+      textWidth + fontSize * 0.8,
+      lineHeight,
+    );
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(line, canvasWidth / 2, y);
+  });
+  ctx.restore();
+}
@@ -0,0 +1,129 @@
+export type DuckingSettings = {
+  enabled: boolean;
+  thresholdDb: number;
+  attackMs: number;
+  releaseMs: number;
+  amountDb: number;
+};
+
+export const DEFAULT_DUCKING_SETTINGS: DuckingSettings = {
+  enabled: true,
+  thresholdDb: -38,
+  attackMs: 80,
+  releaseMs: 450,
+  amountDb: 12,
+};
+
+export type LevelAnalysis = {
+  frameSeconds: number;
+  levels: Float32Array;
+};
+
+export type VoiceRegion = {
+  start: number;
+  end: number;
+};
+
+export type DuckingPlan = {
+  regions: VoiceRegion[];
+  settings: DuckingSettings;
+};
+
+type EnvelopePoint = {
+  time: number;
+  gain: number;
+};
+
+const FRAME_SECONDS = 0.02;
+const MIN_SPEECH_SECONDS = 0.08;
+
+export function analyzeLevels(buffer: AudioBuffer, frameSeconds = FRAME_SECONDS): LevelAnalysis {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * frameSeconds));
+  const frameCount = Math.ceil(buffer.length / frameSize);
+  const levels = new Float32Array(frameCount);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index),
+  );
+
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const from = frame * frameSize;
+    const to = Math.min(buffer.length, from + frameSize);
+    let sum = 0;
+    channels.forEach((data) => {
+      for (let index = from; index < to; index += 1) {
+        sum += data[index] * data[index];
+      }
+    });
+    const rms = Math.sqrt(sum / Math.max(1, (to - from) * channels.length));
+    levels[frame] = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+  }
+
+  return { frameSeconds, levels };
+}
+
+export function detectVoiceRegions(
+  { frameSeconds, levels }: LevelAnalysis,
+  settings: Pick<DuckingSettings, "thresholdDb" | "attackMs" | "releaseMs">,
+): VoiceRegion[] {
+  const regions: VoiceRegion[] = [];
+  let regionStart: number | null = null;
+
+  for (let frame = 0; frame <= levels.length; frame += 1) {
+    const active = frame < levels.length && levels[frame] >= settings.thresholdDb;
+    if (active && regionStart === null) {
+      regionStart = frame * frameSeconds;
+    } else if (!active && regionStart !== null) {
+      const end = frame * frameSeconds;
+      if (end - regionStart >= MIN_SPEECH_SECONDS) regions.push({ start: regionStart, end });
+      regionStart = null;
+    }
+  }
+
+  const bridge = (settings.attackMs + settings.releaseMs) / 1000;
+  return regions.reduce<VoiceRegion[]>((merged, region) => {
+    const previous = merged[merged.length - 1];
+    if (previous && region.start - previous.end <= bridge) {
+      previous.end = region.end;
+    } else {
+      merged.push({ ...region });
+    }
+    return merged;
+  }, []);
+}
+
+function buildEnvelope({ regions, settings }: DuckingPlan): EnvelopePoint[] {
+  const ducked = Math.pow(10, -settings.amountDb / 20);
+  const attack = settings.attackMs / 1000;
+  const release = settings.releaseMs / 1000;
+  return regions.flatMap((region) => [
+    { time: Math.max(0, region.start - attack), gain: 1 },
+    { time: region.start, gain: ducked },
+    { time: region.end, gain: ducked },
+    { time: region.end + release, gain: 1 },
+  ]);
+}
+
+function envelopeAt(points: EnvelopePoint[], time: number) {
+  const nextIndex = points.findIndex((point) => point.time > time);
+  if (nextIndex === -1) return points[points.length - 1]?.gain ?? 1;
+  if (nextIndex === 0) return points[0].gain;
+  const previous = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const progress = (time - previous.time) / Math.max(1e-6, next.time - previous.time);
+  return previous.gain + (next.gain - previous.gain) * progress;
+}
+
+export function applyDucking(
+  param: AudioParam,
+  plan: DuckingPlan,
+  volume: number,
+  when: number,
+  offset: number,
+) {
+  const points = buildEnvelope(plan);
+  param.setValueAtTime(volume * envelopeAt(points, offset), when);
+  points.forEach((point) => {
+    if (point.time <= offset) return;
+    param.linearRampToValueAtTime(volume * point.gain, when + point.time - offset);
+  });
+}
@@ -0,0 +1,193 @@
+import { LevelAnalysis, analyzeLevels } from "@/utils/ducking";
+
+export type AudioEdit =
+  | { id: string; type: "trim"; start: number; end: number }
+  | { id: string; type: "split"; at: number }
+  | { id: string; type: "delete"; start: number; end: number }
+  | { id: string; type: "gain"; start: number; end: number; gainDb: number }
+  | { id: string; type: "fade"; direction: "in" | "out"; duration: number }
+  | { id: string; type: "silence"; thresholdDb: number; minSilenceMs: number; paddingMs: number };
+
+export type TimeRange = {
+  start: number;
+  end: number;
+};
+
+export type RenderedNarration = {
+  blob: Blob;
+  duration: number;
+  ranges: TimeRange[];
+};
+
+const SPLICE_SECONDS = 0.005;
+
+function subtractRange(ranges: TimeRange[], cut: TimeRange): TimeRange[] {
+  return ranges.flatMap((range) => {
+    if (cut.end <= range.start || cut.start >= range.end) return [range];
+    const pieces: TimeRange[] = [];
+    if (cut.start > range.start) pieces.push({ start: range.start, end: cut.start });
+    if (cut.end < range.end) pieces.push({ start: cut.end, end: range.end });
+    return pieces;
+  });
+}
+
+export function detectSilences(
+  { frameSeconds, levels }: LevelAnalysis,
+  thresholdDb: number,
+  minSilenceMs: number,
+  paddingMs: number,
+): TimeRange[] {
+  const silences: TimeRange[] = [];
+  const padding = paddingMs / 1000;
+  let runStart: number | null = null;
+
+  for (let frame = 0; frame <= levels.length; frame += 1) {
+    const quiet = frame < levels.length && levels[frame] < thresholdDb;
+    if (quiet && runStart === null) {
+      runStart = frame * frameSeconds;
+    } else if (!quiet && runStart !== null) {
+      const runEnd = frame * frameSeconds;
+      if ((runEnd - runStart) * 1000 >= minSilenceMs && runEnd - runStart > padding * 2) {
+        silences.push({ start: runStart + padding, end: runEnd - padding });
+      }
+      runStart = null;
+    }
+  }
+
+  return silences;
+}
+
+export function resolveKeptRanges(
+  edits: AudioEdit[],
+  duration: number,
+  analysis?: LevelAnalysis,
+): TimeRange[] {
+  let ranges: TimeRange[] = [{ start: 0, end: duration }];
+
+  edits.forEach((edit) => {
+    if (edit.type === "trim") {
+      ranges = ranges
+        .map((range) => ({
+          start: Math.max(range.start, edit.start),
+          end: Math.min(range.end, edit.end),
+        }))
+        .filter((range) => range.end > range.start);
+    } else if (edit.type === "delete") {
+      ranges = subtractRange(ranges, edit);
+    } else if (edit.type === "silence" && analysis) {
+      detectSilences(analysis, edit.thresholdDb, edit.minSilenceMs, edit.paddingMs).forEach(
+        (silence) => {
+          ranges = subtractRange(ranges, silence);
+        },
+      );
+    }
+  });
+
+  return ranges.filter((range) => range.end - range.start > SPLICE_SECONDS * 2);
+}
+
+export function mapSourceTime(ranges: TimeRange[], time: number): number | null {
+  let offset = 0;
+  for (const range of ranges) {
+    if (time < range.start) return offset;
+    if (time <= range.end) return offset + (time - range.start);
+    offset += range.end - range.start;
+  }
+  return null;
+}
+
+export function splitPoints(edits: AudioEdit[]): number[] {
+  return edits
+    .flatMap((edit) => (edit.type === "split" ? [edit.at] : []))
+    .sort((a, b) => a - b);
+}
+
+function gainAt(edits: AudioEdit[], time: number) {
+  return edits.reduce((gain, edit) => {
+    if (edit.type !== "gain" || time < edit.start || time >= edit.end) return gain;
+    return gain * Math.pow(10, edit.gainDb / 20);
+  }, 1);
+}
+
+function encodeWavBlob(channels: Float32Array[], sampleRate: number): Blob {
+  const frames = channels[0]?.length ?? 0;
+  const dataSize = frames * channels.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeText(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels.length * 2, true);
+  view.setUint16(32, channels.length * 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < frames; frame += 1) {
+    channels.forEach((data) => {
+      const sample = Math.max(-1, Math.min(1, data[frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    });
+  }
+
+  return new Blob([view.buffer], { type: "audio/wav" });
+}
+
+export async function decodeNarration(blob: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, 44_100);
+  return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+export function renderEdits(buffer: AudioBuffer, edits: AudioEdit[]): RenderedNarration {
+  const { sampleRate, numberOfChannels } = buffer;
+  const analysis = edits.some((edit) => edit.type === "silence") ? analyzeLevels(buffer) : undefined;
+  const ranges = resolveKeptRanges(edits, buffer.duration, analysis);
+  const spliceFrames = Math.round(SPLICE_SECONDS * sampleRate);
+  const totalFrames = ranges.reduce(
+    (total, range) => total + Math.round((range.end - range.start) * sampleRate),
+    0,
+  );
+  const output = Array.from({ length: numberOfChannels }, () => new Float32Array(totalFrames));
+
+  for (let channel = 0; channel < numberOfChannels; channel += 1) {
+    const source = buffer.getChannelData(channel);
+    const target = output[channel];
+    let writeIndex = 0;
+    ranges.forEach((range) => {
+      const from = Math.round(range.start * sampleRate);
+      const length = Math.round((range.end - range.start) * sampleRate);
+      for (let index = 0; index < length && writeIndex < totalFrames; index += 1) {
+        const splice = Math.min(1, index / spliceFrames, (length - index) / spliceFrames);
+        const gain = gainAt(edits, (from + index) / sampleRate);
+        target[writeIndex] = (source[from + index] ?? 0) * gain * (ranges.length > 1 ? splice : 1);
+        writeIndex += 1;
+      }
+    });
+  }
+
+  edits.forEach((edit) => {
+    if (edit.type !== "fade") return;
+    const fadeFrames = Math.min(totalFrames, Math.round(edit.duration * sampleRate));
+    output.forEach((data) => {
+      for (let index = 0; index < fadeFrames; index += 1) {
+        const position = edit.direction === "in" ? index : totalFrames - 1 - index;
+        data[position] *= index / fadeFrames;
+      }
+    });
+  });
+
+  return {
+    blob: encodeWavBlob(output, sampleRate),
+    duration: totalFrames / sampleRate,
+    ranges,
+  };
+}
@@ -0,0 +1,179 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from "mp4-muxer";
+import { ArrayBufferTarget as WebMTarget, Muxer as WebMMuxer } from "webm-muxer";
+
+import { videoCodecString } from "@/lib/render/presets";
+
+export type OfflineExportFormat = "mp4" | "webm";
+
+export type OfflineExportOptions = {
+  canvas: HTMLCanvasElement;
+  drawFrame: (time: number) => Promise<void>;
+  audio: Blob | AudioBuffer;
+  duration: number;
+  fps: number;
+  format: OfflineExportFormat;
+  videoBitrate: number;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+};
+
+const AUDIO_SAMPLE_RATE = 48_000;
+const AUDIO_FRAMES_PER_CHUNK = 4_800;
+const MAX_ENCODE_QUEUE = 8;
+
+const codecs = {
+  mp4: { audio: "mp4a.40.2", mimeType: "video/mp4" },
+  webm: { audio: "opus", mimeType: "video/webm" },
+} as const;
+
+export function supportsOfflineExport(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "VideoEncoder" in window &&
+    "AudioEncoder" in window &&
+    "VideoFrame" in window
+  );
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException("Exportação cancelada.", "AbortError");
+  }
+}
+
+async function waitForQueue(encoder: VideoEncoder | AudioEncoder) {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+async function decodeAudio(blob: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(2, 1, AUDIO_SAMPLE_RATE);
+  return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+function createMuxer(format: OfflineExportFormat, width: number, height: number, fps: number, channels: number) {
+  if (format === "mp4") {
+    return new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: "avc", width, height, frameRate: fps },
+      audio: { codec: "aac", sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: channels },
+      fastStart: "in-memory",
+    });
+  }
+  return new WebMMuxer({
+    target: new WebMTarget(),
+    video: { codec: "V_VP9", width, height, frameRate: fps },
+    audio: { codec: "A_OPUS", sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: channels },
+  });
+}
+
+export async function exportOffline({
+  canvas,
+  drawFrame,
+  audio,
+  duration,
+  fps,
+  format,
+  videoBitrate,
+  onProgress,
+  signal,
+}: OfflineExportOptions): Promise<Blob> {
+  const { width, height } = canvas;
+  const audioBuffer = audio instanceof Blob ? await decodeAudio(audio) : audio;
+  const channels = audioBuffer.numberOfChannels;
+  const muxer = createMuxer(format, width, height, fps, channels);
+  let failure: Error | null = null;
+
+  const videoConfig: VideoEncoderConfig = {
+    codec: videoCodecString(format, { width, height, fps }),
+    width,
+    height,
+    bitrate: videoBitrate,
+    framerate: fps,
+  };
+  const audioConfig: AudioEncoderConfig = {
+    codec: codecs[format].audio,
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: channels,
+    bitrate: 192_000,
+  };
+  const [videoSupport, audioSupport] = await Promise.all([
+    VideoEncoder.isConfigSupported(videoConfig),
+    AudioEncoder.isConfigSupported(audioConfig),
+  ]);
+  if (!videoSupport.supported) {
+    throw new Error(`O navegador não suporta codificação ${format.toUpperCase()} em ${width}x${height}.`);
+  }
+  if (!audioSupport.supported) {
+    throw new Error(`O navegador não suporta codificação de áudio ${format === "mp4" ? "AAC" : "Opus"}.`);
+  }
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      failure = error;
+    },
+  });
+  videoEncoder.configure(videoConfig);
+
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (error) => {
+      failure = error;
+    },
+  });
+  audioEncoder.configure(audioConfig);
+
+  try {
+    const totalFrames = Math.ceil(duration * fps);
+    const frameDuration = 1_000_000 / fps;
+
+    for (let index = 0; index < totalFrames; index += 1) {
+      throwIfAborted(signal);
+      if (failure) throw failure;
+      await drawFrame(index / fps);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      videoEncoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+      await waitForQueue(videoEncoder);
+      onProgress?.(((index + 1) / totalFrames) * 0.9);
+    }
+
+    const totalSamples = Math.min(audioBuffer.length, Math.ceil(duration * AUDIO_SAMPLE_RATE));
+    for (let offset = 0; offset < totalSamples; offset += AUDIO_FRAMES_PER_CHUNK) {
+      throwIfAborted(signal);
+      const frames = Math.min(AUDIO_FRAMES_PER_CHUNK, totalSamples - offset);
+      const data = new Float32Array(frames * channels);
+      for (let channel = 0; channel < channels; channel += 1) {
+        data.set(audioBuffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+      }
+      const audioData = new AudioData({
+        format: "f32-planar",
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1_000_000),
+        data,
+      });
+      audioEncoder.encode(audioData);
+      audioData.close();
+      await waitForQueue(audioEncoder);
+      onProgress?.(0.9 + ((offset + frames) / totalSamples) * 0.08);
+    }
+
+    await videoEncoder.flush();
+    await audioEncoder.flush();
+    if (failure) throw failure;
+    muxer.finalize();
+    onProgress?.(1);
+
+    return new Blob([muxer.target.buffer], { type: codecs[format].mimeType });
+  } finally {
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+    if (audioEncoder.state !== "closed") audioEncoder.close();
+  }
+}
@@ -0,0 +1,364 @@
+import JSZip from "jszip";
+import { z } from "zod";
+
+import { emotionIds } from "@/lib/tts/emotions";
+import { lexiconEntrySchema } from "@/lib/tts/pronunciation";
+import { clipFitSchema, clipMotionSchema, clipTransitionShape } from "@/lib/render/manifest";
+import { exportPresets } from "@/lib/render/presets";
+import { DEFAULT_CAPTION_SETTINGS } from "@/utils/captions";
+import { DEFAULT_DUCKING_SETTINGS } from "@/utils/ducking";
+import {
+  AudioTrackClip,
+  GeneratedAudio,
+  MediaAsset,
+  OverlayClip,
+  ProjectState,
+  TimelineClip,
+} from "@/state/useAppStore";
+
+export const BUNDLE_VERSION = 5;
+export const BUNDLE_EXTENSION = ".aurora";
+
+const MANIFEST_FILE = "manifest.json";
+
+const cueSchema = z.object({
+  text: z.string(),
+  voiceId: z.string(),
+  start: z.number(),
+  end: z.number(),
+  speaker: z.string().optional(),
+  line: z.number().optional(),
+});
+
+const editSchema = z.discriminatedUnion("type", [
+  z.object({ id: z.string(), type: z.literal("trim"), start: z.number(), end: z.number() }),
+  z.object({ id: z.string(), type: z.literal("split"), at: z.number() }),
+  z.object({ id: z.string(), type: z.literal("delete"), start: z.number(), end: z.number() }),
+  z.object({
+    id: z.string(),
+    type: z.literal("gain"),
+    start: z.number(),
+    end: z.number(),
+    gainDb: z.number(),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("fade"),
+    direction: z.enum(["in", "out"]),
+    duration: z.number().min(0),
+  }),
+  z.object({
+    id: z.string(),
+    type: z.literal("silence"),
+    thresholdDb: z.number(),
+    minSilenceMs: z.number().min(0),
+    paddingMs: z.number().min(0),
+  }),
+]);
+
+const bundleManifestSchema = z.object({
+  format: z.literal("aurora-project"),
+  version: z.number().int().positive(),
+  exportedAt: z.number(),
+  project: z.object({
+    name: z.string(),
+    mode: z.enum(["simples", "avançado"]),
+    exportPresetId: z.enum(
+      exportPresets.map((preset) => preset.id) as [ProjectState["exportPresetId"], ...ProjectState["exportPresetId"][]],
+    ),
+    activeAudioId: z.string().nullable(),
+    audios: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        file: z.string(),
+        mimeType: z.string(),
+        durationEstimateSeconds: z.number(),
+        durationSeconds: z.number(),
+        createdAt: z.number(),
+        settings: z.object({
+          voiceId: z.string(),
+          speed: z.number(),
+          pitch: z.number(),
+          emotion: z.enum(emotionIds),
+          speakers: z.record(z.string(), z.string()).optional(),
+          presetName: z.string().optional(),
+        }),
+        cues: z.array(cueSchema).optional(),
+        captions: z
+          .array(z.object({ id: z.string(), start: z.number(), end: z.number(), text: z.string() }))
+          .optional(),
+        edits: z.array(editSchema).optional(),
+      }),
+    ),
+    media: z.array(
+      z.object({
+        id: z.string(),
+        kind: z.enum(["image", "video"]),
+        name: z.string(),
+        file: z.string(),
+        mimeType: z.string(),
+        duration: z.number().optional(),
+        previewFrame: z.string().optional(),
+      }),
+    ),
+    timeline: z.array(
+      z.object({
+        id: z.string(),
+        mediaId: z.string(),
+        start: z.number(),
+        duration: z.number().positive(),
+        ...clipTransitionShape,
+        motion: clipMotionSchema.optional(),
+        fit: clipFitSchema.optional(),
+      }),
+    ),
+    audioTracks: z.array(
+      z.object({
+        id: z.string(),
+        kind: z.enum(["música", "efeito"]),
+        name: z.string(),
+        file: z.string(),
+        mimeType: z.string(),
+        start: z.number().min(0),
+        duration: z.number().positive(),
+        sourceDuration: z.number().positive(),
+        volume: z.number().min(0).max(2),
+        loop: z.boolean(),
+      }),
+    ),
+    overlays: z.array(
+      z.object({
+        id: z.string(),
+        kind: z.enum(["logo", "lower-third", "pip"]),
+        mediaId: z.string().optional(),
+        title: z.string().optional(),
+        subtitle: z.string().optional(),
+        start: z.number().min(0),
+        duration: z.number().positive(),
+        x: z.number(),
+        y: z.number(),
+        scale: z.number().positive(),
+        opacity: z.number().min(0).max(1),
+      }),
+    ),
+    ducking: z.object({
+      enabled: z.boolean(),
+      thresholdDb: z.number().min(-90).max(0),
+      attackMs: z.number().min(0),
+      releaseMs: z.number().min(0),
+      amountDb: z.number().min(0).max(60),
+    }),
+    captionSettings: z.object({
+      burnIn: z.boolean(),
+      position: z.enum(["inferior", "superior"]),
+      fontScale: z.number().positive(),
+    }),
+    lexicon: z.array(lexiconEntrySchema),
+  }),
+});
+
+export type BundleManifest = z.infer<typeof bundleManifestSchema>;
+
+type RawManifest = { version?: unknown } & Record<string, unknown>;
+
+const migrations: Record<number, (manifest: RawManifest) => RawManifest> = {
+  1: (manifest) => ({
+    ...manifest,
+    version: 2,
+    project: { ...(manifest.project as object), audioTracks: [], overlays: [] },
+  }),
+  2: (manifest) => ({
+    ...manifest,
+    version: 3,
+    project: { ...(manifest.project as object), ducking: DEFAULT_DUCKING_SETTINGS },
+  }),
+  3: (manifest) => ({
+    ...manifest,
+    version: 4,
+    project: { ...(manifest.project as object), captionSettings: DEFAULT_CAPTION_SETTINGS },
+  }),
+  4: (manifest) => ({
+    ...manifest,
+    version: 5,
+    project: { ...(manifest.project as object), lexicon: [] },
+  }),
+};
+
+function migrateManifest(raw: RawManifest): RawManifest {
+  let migrated = raw;
+  let version = typeof migrated.version === "number" ? migrated.version : 0;
+  if (version > BUNDLE_VERSION) {
+    throw new Error("Este arquivo .aurora foi criado por uma versão mais recente do Aurora Studio.");
+  }
+  while (version < BUNDLE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Versão de pacote .aurora não suportada: ${version}.`);
+    }
+    migrated = migrate(migrated);
+    version = migrated.version as number;
+  }
+  return migrated;
+}
+
+function extensionFor(name: string, fallback: string) {
+  const match = name.match(/\.[a-z0-9]+$/i);
+  return match ? match[0].toLowerCase() : fallback;
+}
+
+export async function exportProjectBundle(name: string, state: ProjectState): Promise<Blob> {
+  const zip = new JSZip();
+
+  const manifest: BundleManifest = {
+    format: "aurora-project",
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      name,
+      mode: state.mode,
+      exportPresetId: state.exportPresetId,
+      activeAudioId: state.activeAudioId,
+      audios: state.audios.map((audio) => {
+        const file = `audio/${audio.id}${extensionFor(audio.name, ".mp3")}`;
+        zip.file(file, audio.blob);
+        return {
+          id: audio.id,
+          name: audio.name,
+          file,
+          mimeType: audio.blob.type || "audio/mpeg",
+          durationEstimateSeconds: audio.durationEstimateSeconds,
+          durationSeconds: audio.durationSeconds,
+          createdAt: audio.createdAt,
+          settings: audio.settings,
+          cues: audio.cues,
+          captions: audio.captions,
+          edits: audio.edits,
+        };
+      }),
+      media: state.mediaLibrary.map((asset) => {
+        const file = `media/${asset.id}${extensionFor(asset.name, "")}`;
+        zip.file(file, asset.file);
+        return {
+          id: asset.id,
+          kind: asset.kind,
+          name: asset.name,
+          file,
+          mimeType: asset.file.type,
+          duration: asset.duration,
+          previewFrame: asset.previewFrame,
+        };
+      }),
+      timeline: state.timeline,
+      audioTracks: state.audioTracks.map((track) => {
+        const file = `tracks/${track.id}${extensionFor(track.name, ".mp3")}`;
+        zip.file(file, track.blob);
+        return {
+          id: track.id,
+          kind: track.kind,
+          name: track.name,
+          file,
+          mimeType: track.blob.type || "audio/mpeg",
+          start: track.start,
+          duration: track.duration,
+          sourceDuration: track.sourceDuration,
+          volume: track.volume,
+          loop: track.loop,
+        };
+      }),
+      overlays: state.overlays,
+      ducking: state.ducking,
+      captionSettings: state.captionSettings,
+      lexicon: state.lexicon,
+    },
+  };
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: "blob", mimeType: "application/zip" });
+}
+
+export async function importProjectBundle(
+  bundle: Blob,
+): Promise<{ name: string; state: ProjectState }> {
+  const zip = await JSZip.loadAsync(bundle);
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error("Arquivo .aurora inválido: manifest.json ausente.");
+  }
+
+  const parseResult = bundleManifestSchema.safeParse(
+    migrateManifest(JSON.parse(await manifestFile.async("string")) as RawManifest),
+  );
+  if (!parseResult.success) {
+    throw new Error(
+      `Manifesto .aurora inválido: ${parseResult.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ")}`,
+    );
+  }
+  const { project } = parseResult.data;
+
+  const readEntry = async (path: string, mimeType: string) => {
+    const entry = zip.file(path);
+    if (!entry) {
+      throw new Error(`Arquivo ${path} ausente no pacote .aurora.`);
+    }
+    return new Blob([await entry.async("arraybuffer")], { type: mimeType });
+  };
+
+  const audioIds = new Map<string, string>();
+  const audios: GeneratedAudio[] = [];
+  for (const { file, mimeType, ...audio } of project.audios) {
+    const blob = await readEntry(file, mimeType);
+    const id = crypto.randomUUID();
+    audioIds.set(audio.id, id);
+    audios.push({ ...audio, id, blob, url: URL.createObjectURL(blob) });
+  }
+
+  const mediaIds = new Map<string, string>();
+  const mediaLibrary: MediaAsset[] = [];
+  for (const { file: path, mimeType, ...asset } of project.media) {
+    const blob = await readEntry(path, mimeType);
+    const file = new File([blob], asset.name, { type: mimeType });
+    const id = crypto.randomUUID();
+    mediaIds.set(asset.id, id);
+    mediaLibrary.push({ ...asset, id, file, url: URL.createObjectURL(file) });
+  }
+
+  const timeline: TimelineClip[] = project.timeline
+    .filter((clip) => mediaIds.has(clip.mediaId))
+    .map((clip) => ({ ...clip, id: crypto.randomUUID(), mediaId: mediaIds.get(clip.mediaId)! }));
+
+  const audioTracks: AudioTrackClip[] = [];
+  for (const { file, mimeType, ...track } of project.audioTracks) {
+    const blob = await readEntry(file, mimeType);
+    audioTracks.push({ ...track, id: crypto.randomUUID(), blob, url: URL.createObjectURL(blob) });
+  }
+
+  const overlays: OverlayClip[] = project.overlays
+    .filter((overlay) => !overlay.mediaId || mediaIds.has(overlay.mediaId))
+    .map((overlay) => ({
+      ...overlay,
+      id: crypto.randomUUID(),
+      mediaId: overlay.mediaId ? mediaIds.get(overlay.mediaId) : undefined,
+    }));
+
+  return {
+    name: project.name,
+    state: {
+      audios,
+      mediaLibrary,
+      timeline,
+      audioTracks,
+      overlays,
+      ducking: project.ducking,
+      captionSettings: project.captionSettings,
+      lexicon: project.lexicon,
+      mode: project.mode,
+      exportPresetId: project.exportPresetId,
+      activeAudioId: project.activeAudioId
+        ? audioIds.get(project.activeAudioId) ?? audios[0]?.id ?? null
+        : audios[0]?.id ?? null,
+    },
+  };
+}
@@ -0,0 +1,379 @@
+import { DEFAULT_CAPTION_SETTINGS } from "@/utils/captions";
+import { DEFAULT_DUCKING_SETTINGS } from "@/utils/ducking";
+import {
+  AudioTrackClip,
+  GeneratedAudio,
+  MediaAsset,
+  ProjectState,
+} from "@/state/useAppStore";
+
+export const PROJECT_DOCUMENT_VERSION = 5;
+
+const DB_NAME = "aurora-studio";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+const BLOBS_STORE = "blobs";
+const LAST_PROJECT_KEY = "aurora:last-project";
+
+export type StoredAudio = Omit<GeneratedAudio, "url" | "blob"> & {
+  blobKey: string;
+};
+
+export type StoredMedia = Omit<MediaAsset, "url" | "file"> & {
+  blobKey: string;
+  fileType: string;
+  lastModified: number;
+};
+
+export type StoredAudioTrack = Omit<AudioTrackClip, "url" | "blob"> & {
+  blobKey: string;
+};
+
+export type ProjectDocument = {
+  id: string;
+  name: string;
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  state: Omit<ProjectState, "audios" | "mediaLibrary" | "audioTracks"> & {
+    audios: StoredAudio[];
+    mediaLibrary: StoredMedia[];
+    audioTracks: StoredAudioTrack[];
+  };
+};
+
+export type ProjectSummary = Pick<ProjectDocument, "id" | "name" | "createdAt" | "updatedAt"> & {
+  audioCount: number;
+  mediaCount: number;
+};
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+        db.createObjectStore(BLOBS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return databasePromise;
+}
+
+function blobKey(projectId: string, assetId: string) {
+  return `${projectId}:${assetId}`;
+}
+
+function projectBlobRange(projectId: string) {
+  return IDBKeyRange.bound(`${projectId}:`, `${projectId}:￿`);
+}
+
+const migrations: Record<number, (document: ProjectDocument) => ProjectDocument> = {
+  1: (document) => ({
+    ...document,
+    version: 2,
+    state: { ...document.state, audioTracks: [], overlays: [] },
+  }),
+  2: (document) => ({
+    ...document,
+    version: 3,
+    state: { ...document.state, ducking: DEFAULT_DUCKING_SETTINGS },
+  }),
+  3: (document) => ({
+    ...document,
+    version: 4,
+    state: { ...document.state, captionSettings: DEFAULT_CAPTION_SETTINGS },
+  }),
+  4: (document) => ({
+    ...document,
+    version: 5,
+    state: { ...document.state, lexicon: [] },
+  }),
+};
+
+export function migrateProjectDocument(document: ProjectDocument): ProjectDocument {
+  if (document.version > PROJECT_DOCUMENT_VERSION) {
+    throw new Error("Este projeto foi salvo por uma versão mais recente do Aurora Studio.");
+  }
+  let migrated = document;
+  while (migrated.version < PROJECT_DOCUMENT_VERSION) {
+    const migrate = migrations[migrated.version];
+    if (!migrate) {
+      throw new Error(`Não há migração disponível para projetos na versão ${migrated.version}.`);
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const documents = await requestToPromise<ProjectDocument[]>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll(),
+  );
+  return documents
+    .map((document) => ({
+      id: document.id,
+      name: document.name,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt,
+      audioCount: document.state.audios.length,
+      mediaCount: document.state.mediaLibrary.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveProject(id: string, name: string, state: ProjectState): Promise<void> {
+  const db = await openDatabase();
+  const existing = await requestToPromise<ProjectDocument | undefined>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id),
+  );
+  const storedKeys = new Set(
+    (await requestToPromise(
+      db.transaction(BLOBS_STORE).objectStore(BLOBS_STORE).getAllKeys(projectBlobRange(id)),
+    )) as string[],
+  );
+
+  const transaction = db.transaction([PROJECTS_STORE, BLOBS_STORE], "readwrite");
+  const blobs = transaction.objectStore(BLOBS_STORE);
+  const liveKeys = new Set<string>();
+
+  const audios: StoredAudio[] = state.audios.map((audio) => {
+    const key = blobKey(id, audio.id);
+    liveKeys.add(key);
+    if (!storedKeys.has(key)) blobs.put(audio.blob, key);
+    return {
+      id: audio.id,
+      name: audio.name,
+      durationEstimateSeconds: audio.durationEstimateSeconds,
+      durationSeconds: audio.durationSeconds,
+      createdAt: audio.createdAt,
+      settings: audio.settings,
+      cues: audio.cues,
+      captions: audio.captions,
+      edits: audio.edits,
+      blobKey: key,
+    };
+  });
+
+  const mediaLibrary: StoredMedia[] = state.mediaLibrary.map((asset) => {
+    const key = blobKey(id, asset.id);
+    liveKeys.add(key);
+    if (!storedKeys.has(key)) blobs.put(asset.file, key);
+    return {
+      id: asset.id,
+      kind: asset.kind,
+      name: asset.name,
+      duration: asset.duration,
+      previewFrame: asset.previewFrame,
+      blobKey: key,
+      fileType: asset.file.type,
+      lastModified: asset.file.lastModified,
+    };
+  });
+
+  const audioTracks: StoredAudioTrack[] = state.audioTracks.map((track) => {
+    const key = blobKey(id, track.id);
+    liveKeys.add(key);
+    if (!storedKeys.has(key)) blobs.put(track.blob, key);
+    return {
+      id: track.id,
+      kind: track.kind,
+      name: track.name,
+      start: track.start,
+      duration: track.duration,
+      sourceDuration: track.sourceDuration,
+      volume: track.volume,
+      loop: track.loop,
+      blobKey: key,
+    };
+  });
+
+  storedKeys.forEach((key) => {
+    if (!liveKeys.has(key)) blobs.delete(key);
+  });
+
+  const now = Date.now();
+  const document: ProjectDocument = {
+    id,
+    name,
+    version: PROJECT_DOCUMENT_VERSION,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    state: {
+      audios,
+      mediaLibrary,
+      timeline: state.timeline,
+      audioTracks,
+      overlays: state.overlays,
+      ducking: state.ducking,
+      captionSettings: state.captionSettings,
+      lexicon: state.lexicon,
+      mode: state.mode,
+      exportPresetId: state.exportPresetId,
+      activeAudioId: state.activeAudioId,
+    },
+  };
+  transaction.objectStore(PROJECTS_STORE).put(document);
+
+  await transactionDone(transaction);
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+}
+
+export async function loadProject(
+  id: string,
+): Promise<{ name: string; state: ProjectState } | null> {
+  const db = await openDatabase();
+  const stored = await requestToPromise<ProjectDocument | undefined>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id),
+  );
+  if (!stored) return null;
+
+  const document = migrateProjectDocument(stored);
+  const blobs = db.transaction(BLOBS_STORE).objectStore(BLOBS_STORE);
+  const readBlob = (key: string) => requestToPromise<Blob | undefined>(blobs.get(key));
+
+  const audioBlobs = await Promise.all(document.state.audios.map((audio) => readBlob(audio.blobKey)));
+  const mediaBlobs = await Promise.all(
+    document.state.mediaLibrary.map((asset) => readBlob(asset.blobKey)),
+  );
+  const trackBlobs = await Promise.all(
+    document.state.audioTracks.map((track) => readBlob(track.blobKey)),
+  );
+
+  const audios: GeneratedAudio[] = [];
+  document.state.audios.forEach((audio, index) => {
+    const blob = audioBlobs[index];
+    if (!blob) return;
+    audios.push({
+      id: audio.id,
+      name: audio.name,
+      url: URL.createObjectURL(blob),
+      blob,
+      durationEstimateSeconds: audio.durationEstimateSeconds,
+      durationSeconds: audio.durationSeconds,
+      createdAt: audio.createdAt,
+      settings: audio.settings,
+      cues: audio.cues,
+      captions: audio.captions,
+      edits: audio.edits,
+    });
+  });
+
+  const mediaLibrary: MediaAsset[] = [];
+  document.state.mediaLibrary.forEach((asset, index) => {
+    const blob = mediaBlobs[index];
+    if (!blob) return;
+    const file =
+      blob instanceof File
+        ? blob
+        : new File([blob], asset.name, { type: asset.fileType, lastModified: asset.lastModified });
+    mediaLibrary.push({
+      id: asset.id,
+      kind: asset.kind,
+      name: asset.name,
+      url: URL.createObjectURL(file),
+      file,
+      duration: asset.duration,
+      previewFrame: asset.previewFrame,
+    });
+  });
+
+  const audioTracks: AudioTrackClip[] = [];
+  document.state.audioTracks.forEach((track, index) => {
+    const blob = trackBlobs[index];
+    if (!blob) return;
+    audioTracks.push({
+      id: track.id,
+      kind: track.kind,
+      name: track.name,
+      url: URL.createObjectURL(blob),
+      blob,
+      start: track.start,
+      duration: track.duration,
+      sourceDuration: track.sourceDuration,
+      volume: track.volume,
+      loop: track.loop,
+    });
+  });
+
+  const mediaIds = new Set(mediaLibrary.map((asset) => asset.id));
+  const activeAudioId = audios.some((audio) => audio.id === document.state.activeAudioId)
+    ? document.state.activeAudioId
+    : audios[0]?.id ?? null;
+
+  localStorage.setItem(LAST_PROJECT_KEY, id);
+
+  return {
+    name: document.name,
+    state: {
+      audios,
+      mediaLibrary,
+      timeline: document.state.timeline.filter((clip) => mediaIds.has(clip.mediaId)),
+      audioTracks,
+      overlays: document.state.overlays.filter(
+        (overlay) => !overlay.mediaId || mediaIds.has(overlay.mediaId),
+      ),
+      ducking: document.state.ducking,
+      captionSettings: document.state.captionSettings,
+      lexicon: document.state.lexicon,
+      mode: document.state.mode,
+      exportPresetId: document.state.exportPresetId,
+      activeAudioId,
+    },
+  };
+}
+
+export async function duplicateProject(id: string, name: string): Promise<string | null> {
+  const loaded = await loadProject(id);
+  if (!loaded) return null;
+  const copyId = crypto.randomUUID();
+  await saveProject(copyId, name, loaded.state);
+  revokeProjectUrls(loaded.state);
+  return copyId;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, BLOBS_STORE], "readwrite");
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(BLOBS_STORE).delete(projectBlobRange(id));
+  await transactionDone(transaction);
+  if (localStorage.getItem(LAST_PROJECT_KEY) === id) {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+}
+
+export function getLastProjectId(): string | null {
+  return localStorage.getItem(LAST_PROJECT_KEY);
+}
+
+export function revokeProjectUrls(
+  state: Pick<ProjectState, "audios" | "mediaLibrary" | "audioTracks">,
+) {
+  state.audios.forEach((audio) => URL.revokeObjectURL(audio.url));
+  state.mediaLibrary.forEach((asset) => URL.revokeObjectURL(asset.url));
+  state.audioTracks.forEach((track) => URL.revokeObjectURL(track.url));
+}
@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { GeneratedAudio } from "@/state/useAppStore";
+import { AudioEdit, TimeRange, decodeNarration, renderEdits } from "@/utils/narrationEdits";
+
+export type NarrationSource = {
+  url: string;
+  blob: Blob;
+  duration: number;
+  ranges: TimeRange[] | null;
+};
+
+const RENDER_DEBOUNCE_MS = 150;
+
+const decodedNarrations = new WeakMap<Blob, Promise<AudioBuffer>>();
+
+export function decodeNarrationCached(blob: Blob): Promise<AudioBuffer> {
+  const existing = decodedNarrations.get(blob);
+  if (existing) return existing;
+  const decoded = decodeNarration(blob);
+  decodedNarrations.set(blob, decoded);
+  decoded.catch(() => {
+    if (decodedNarrations.get(blob) === decoded) decodedNarrations.delete(blob);
+  });
+  return decoded;
+}
+
+export function useRenderedNarration(audio: GeneratedAudio | undefined): NarrationSource | null {
+  const [rendered, setRendered] = useState<{
+    audioId: string;
+    edits: AudioEdit[];
+    source: NarrationSource;
+  } | null>(null);
+  const audioId = audio?.id;
+  const edits = audio?.edits;
+  const blob = audio?.blob;
+
+  const original = useMemo<NarrationSource | null>(
+    () =>
+      audio
+        ? {
+            url: audio.url,
+            blob: audio.blob,
+            duration: audio.durationSeconds || audio.durationEstimateSeconds,
+            ranges: null,
+          }
+        : null,
+    [audio],
+  );
+
+  useEffect(() => {
+    if (!audioId || !blob || !edits?.length) {
+      return undefined;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const buffer = await decodeNarrationCached(blob);
+        if (cancelled) return;
+        const result = renderEdits(buffer, edits);
+        url = URL.createObjectURL(result.blob);
+        setRendered({
+          audioId,
+          edits,
+          source: { url, blob: result.blob, duration: result.duration, ranges: result.ranges },
+        });
+      } catch {
+        if (!cancelled) setRendered(null);
+      }
+    }, RENDER_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [audioId, blob, edits]);
+
+  if (!edits?.length || rendered?.edits !== edits || rendered.audioId !== audioId) return original;
+  return rendered.source;
+}
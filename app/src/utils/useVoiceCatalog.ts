@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+
+import type { VoiceCatalogEntry } from "@/lib/tts/catalog";
+import { voiceLibrary } from "@/lib/voices";
+
+const fallbackCatalog: VoiceCatalogEntry[] = voiceLibrary.map((voice) => ({
+  id: voice.id,
+  label: voice.label,
+  tone: voice.tone,
+  description: voice.description,
+  gender: voice.gender,
+  defaultEmotion: voice.defaultEmotion,
+  language: "pt-BR",
+  provider: null,
+  model: null,
+  available: true,
+  tags: [],
+  previewUrl: `/api/voices/${encodeURIComponent(voice.id)}/preview`,
+}));
+
+let catalogRequest: Promise<VoiceCatalogEntry[]> | null = null;
+
+function fetchCatalog() {
+  catalogRequest ??= fetch("/api/voices")
+    .then((response) => (response.ok ? response.json() : Promise.reject(response)))
+    .then((payload: { voices: VoiceCatalogEntry[] }) => payload.voices)
+    .catch(() => {
+      catalogRequest = null;
+      return fallbackCatalog;
+    });
+  return catalogRequest;
+}
+
+export function useVoiceCatalog(): VoiceCatalogEntry[] {
+  const [catalog, setCatalog] = useState(fallbackCatalog);
+
+  useEffect(() => {
+    let active = true;
+    fetchCatalog().then((voices) => {
+      if (active) setCatalog(voices);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return catalog;
+}
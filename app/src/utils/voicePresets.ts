@@ -0,0 +1,53 @@
+import { useSyncExternalStore } from "react";
+
+import { Emotion } from "@/lib/voices";
+import type { PronunciationOverride } from "@/lib/tts/pronunciation";
+
+export type VoicePreset = {
+  id: string;
+  name: string;
+  baseVoiceId: string;
+  speed: number;
+  pitch: number;
+  emotion: Emotion;
+  pronunciations: PronunciationOverride[];
+  createdAt: number;
+};
+
+const PRESETS_KEY = "aurora:voice-presets";
+
+const NO_PRESETS: VoicePreset[] = [];
+
+let cachedPresets: VoicePreset[] | null = null;
+const listeners = new Set<() => void>();
+
+export function loadVoicePresets(): VoicePreset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as VoicePreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveVoicePresets(presets: VoicePreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  cachedPresets = presets;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useVoicePresets(): VoicePreset[] {
+  return useSyncExternalStore(
+    subscribe,
+    () => (cachedPresets ??= loadVoicePresets()),
+    () => NO_PRESETS,
+  );
+}